@@ -1,7 +1,16 @@
 import { client } from './endpoint';
-import { AssistantsSearchSchema, AssistantGraphQuerySchema } from '../zod';
+import {
+    AssistantsSearchSchema,
+    AssistantsCountSchema,
+    AssistantGraphQuerySchema,
+    AssistantIdParamSchema,
+    AssistantCreatePayloadSchema,
+    AssistantUpdatePayloadSchema,
+    AssistantVersionsSearchSchema,
+    AssistantLatestPayloadSchema,
+} from '../zod';
 import camelcaseKeys from 'camelcase-keys';
-import { parseQueryParams, validate, jsonResponse, errorResponse } from './utils';
+import { parsePathParams, parseQueryParams, validate, jsonResponse, errorResponse } from './utils';
 import { LangGraphServerContext } from './context';
 
 /**
@@ -13,15 +22,138 @@ export async function searchAssistants(req: Request, context: LangGraphServerCon
         const payload = validate(AssistantsSearchSchema, body);
 
         const data = await client.assistants.search(camelcaseKeys(payload));
+        // 总数不受分页影响，使用相同的过滤条件单独统计
+        const total = await client.assistants.count({ graphId: payload.graph_id, metadata: payload.metadata });
 
         return jsonResponse(data, 200, {
-            'X-Pagination-Total': '0',
+            'X-Pagination-Total': total.toString(),
         });
     } catch (error) {
         return errorResponse(error);
     }
 }
 
+/**
+ * POST /assistants/count
+ */
+export async function countAssistants(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(AssistantsCountSchema, body);
+
+        const count = await client.assistants.count(camelcaseKeys(payload));
+
+        return jsonResponse(count);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /assistants
+ */
+export async function createAssistant(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(AssistantCreatePayloadSchema, body);
+
+        const assistant = await client.assistants.create(camelcaseKeys(payload));
+
+        return jsonResponse(assistant);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * GET /assistants/:assistant_id
+ */
+export async function getAssistant(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/assistants/:assistant_id');
+        const { assistant_id } = validate(AssistantIdParamSchema, params);
+
+        const assistant = await client.assistants.get(assistant_id);
+
+        return jsonResponse(assistant);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * PATCH /assistants/:assistant_id
+ */
+export async function updateAssistant(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/assistants/:assistant_id');
+        const { assistant_id } = validate(AssistantIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = validate(AssistantUpdatePayloadSchema, body);
+
+        const assistant = await client.assistants.update(assistant_id, camelcaseKeys(payload));
+
+        return jsonResponse(assistant);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * DELETE /assistants/:assistant_id
+ */
+export async function deleteAssistant(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/assistants/:assistant_id');
+        const { assistant_id } = validate(AssistantIdParamSchema, params);
+
+        await client.assistants.delete(assistant_id);
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /assistants/:assistant_id/versions
+ */
+export async function getAssistantVersions(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/assistants/:assistant_id/versions');
+        const { assistant_id } = validate(AssistantIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = validate(AssistantVersionsSearchSchema, body);
+
+        const versions = await client.assistants.getVersions(assistant_id, payload);
+
+        return jsonResponse(versions);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /assistants/:assistant_id/latest
+ */
+export async function setLatestAssistantVersion(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/assistants/:assistant_id/latest');
+        const { assistant_id } = validate(AssistantIdParamSchema, params);
+
+        const body = await req.json();
+        const { version } = validate(AssistantLatestPayloadSchema, body);
+
+        const assistant = await client.assistants.setLatest(assistant_id, version);
+
+        return jsonResponse(assistant);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
 /**
  * GET /assistants/:assistant_id/graph
  */
@@ -0,0 +1,146 @@
+import { client } from './endpoint';
+import {
+    CronIdParamSchema,
+    CronCreatePayloadSchema,
+    CronUpdatePayloadSchema,
+    CronSearchPayloadSchema,
+    CronCountPayloadSchema,
+    ThreadIdParamSchema,
+} from '../zod';
+import camelcaseKeys from 'camelcase-keys';
+import { parsePathParams, validate, jsonResponse, errorResponse, applyLangGraphContext } from './utils';
+import { LangGraphServerContext } from './context';
+
+/**
+ * POST /runs/crons
+ */
+export async function createCron(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        // 与创建 run 一致，cron 触发的 run 也带上请求的 langgraph_context
+        const { assistant_id, schedule, end_time, metadata, ...payload } = applyLangGraphContext(
+            validate(CronCreatePayloadSchema, body),
+            context,
+        );
+
+        const cron = await client.crons.create(assistant_id, {
+            schedule,
+            endTime: end_time,
+            metadata,
+            payload,
+        });
+
+        return jsonResponse(cron);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/:thread_id/runs/crons
+ */
+export async function createThreadCron(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs/crons');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+        const body = await req.json();
+        // 与创建 run 一致，cron 触发的 run 也带上请求的 langgraph_context
+        const { assistant_id, schedule, end_time, metadata, ...payload } = applyLangGraphContext(
+            validate(CronCreatePayloadSchema, body),
+            context,
+        );
+
+        const cron = await client.crons.createForThread(thread_id, assistant_id, {
+            schedule,
+            endTime: end_time,
+            metadata,
+            payload,
+        });
+
+        return jsonResponse(cron);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * PATCH /runs/crons/:cron_id
+ */
+export async function updateCron(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/runs/crons/:cron_id');
+        const { cron_id } = validate(CronIdParamSchema, params);
+        const body = await req.json();
+        const { schedule, end_time, metadata, ...payload } = validate(CronUpdatePayloadSchema, body);
+        // 与创建 cron 一致，更新 run 参数时带上请求的 langgraph_context
+        const runPayload =
+            Object.keys(payload).length > 0 || context?.langgraph_context
+                ? applyLangGraphContext(payload, context)
+                : undefined;
+
+        const cron = await client.crons.update(cron_id, {
+            schedule,
+            endTime: end_time,
+            metadata,
+            payload: runPayload,
+        });
+
+        return jsonResponse(cron);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * DELETE /runs/crons/:cron_id
+ */
+export async function deleteCron(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/runs/crons/:cron_id');
+        const { cron_id } = validate(CronIdParamSchema, params);
+
+        await client.crons.delete(cron_id);
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /runs/crons/search
+ */
+export async function searchCrons(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(CronSearchPayloadSchema, body);
+
+        const query = camelcaseKeys(payload);
+        const [data, total] = await Promise.all([
+            client.crons.search(query),
+            client.crons.count({ assistantId: query.assistantId, threadId: query.threadId }),
+        ]);
+
+        return jsonResponse(data, 200, {
+            'X-Pagination-Total': total.toString(),
+        });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /runs/crons/count
+ */
+export async function countCrons(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(CronCountPayloadSchema, body);
+
+        const count = await client.crons.count(camelcaseKeys(payload));
+
+        return jsonResponse(count);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
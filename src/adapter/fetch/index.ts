@@ -1,7 +1,45 @@
 import { LangGraphGlobal } from '../../global';
-import { searchAssistants, getAssistantGraph } from './assistants';
-import { createThread, searchThreads, getThread, deleteThread } from './threads';
-import { streamRun, joinRunStream, listRuns, cancelRun, updateThreadState } from './runs';
+import {
+    searchAssistants,
+    countAssistants,
+    getAssistantGraph,
+    createAssistant,
+    getAssistant,
+    updateAssistant,
+    deleteAssistant,
+    getAssistantVersions,
+    setLatestAssistantVersion,
+} from './assistants';
+import {
+    createThread,
+    searchThreads,
+    countThreads,
+    getThread,
+    deleteThread,
+    getThreadState,
+    getThreadStateAtCheckpoint,
+    postThreadStateAtCheckpoint,
+    getThreadHistory,
+    patchThread,
+    copyThread,
+    pruneThreads,
+} from './threads';
+import {
+    createRun,
+    createStatelessRun,
+    waitRun,
+    waitStatelessRun,
+    streamRun,
+    joinRunStream,
+    listRuns,
+    getRun,
+    deleteRun,
+    joinRun,
+    cancelRun,
+    updateThreadState,
+} from './runs';
+import { createCron, createThreadCron, updateCron, deleteCron, searchCrons, countCrons } from './crons';
+import { putStoreItem, getStoreItem, deleteStoreItem, searchStoreItems, listStoreNamespaces } from './store';
 import { errorResponse } from './utils';
 import type { LangGraphServerContext } from './context';
 /**
@@ -10,7 +48,8 @@ import type { LangGraphServerContext } from './context';
 interface Route {
     method: string;
     pattern: RegExp;
-    handler: (req: Request, context: LangGraphServerContext) => Promise<Response>;
+    /** signal 为客户端原始请求的 signal，去掉基础路径后新建的请求不会在客户端断开时中止 */
+    handler: (req: Request, context: LangGraphServerContext, signal: AbortSignal) => Promise<Response>;
 }
 
 const routes: Route[] = [
@@ -20,11 +59,46 @@ const routes: Route[] = [
         pattern: /^\/assistants\/search$/,
         handler: searchAssistants,
     },
+    {
+        method: 'POST',
+        pattern: /^\/assistants\/count$/,
+        handler: countAssistants,
+    },
     {
         method: 'GET',
         pattern: /^\/assistants\/[^/]+\/graph$/,
         handler: getAssistantGraph,
     },
+    {
+        method: 'POST',
+        pattern: /^\/assistants$/,
+        handler: createAssistant,
+    },
+    {
+        method: 'GET',
+        pattern: /^\/assistants\/[^/]+$/,
+        handler: getAssistant,
+    },
+    {
+        method: 'PATCH',
+        pattern: /^\/assistants\/[^/]+$/,
+        handler: updateAssistant,
+    },
+    {
+        method: 'DELETE',
+        pattern: /^\/assistants\/[^/]+$/,
+        handler: deleteAssistant,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/assistants\/[^/]+\/versions$/,
+        handler: getAssistantVersions,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/assistants\/[^/]+\/latest$/,
+        handler: setLatestAssistantVersion,
+    },
 
     // Threads
     {
@@ -37,6 +111,16 @@ const routes: Route[] = [
         pattern: /^\/threads\/search$/,
         handler: searchThreads,
     },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/count$/,
+        handler: countThreads,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/prune$/,
+        handler: pruneThreads,
+    },
     {
         method: 'GET',
         pattern: /^\/threads\/[^/]+$/,
@@ -47,8 +131,58 @@ const routes: Route[] = [
         pattern: /^\/threads\/[^/]+$/,
         handler: deleteThread,
     },
+    {
+        method: 'PATCH',
+        pattern: /^\/threads\/[^/]+$/,
+        handler: patchThread,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/copy$/,
+        handler: copyThread,
+    },
+    {
+        method: 'GET',
+        pattern: /^\/threads\/[^/]+\/state$/,
+        handler: getThreadState,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/state\/checkpoint$/,
+        handler: postThreadStateAtCheckpoint,
+    },
+    {
+        method: 'GET',
+        pattern: /^\/threads\/[^/]+\/state\/[^/]+$/,
+        handler: getThreadStateAtCheckpoint,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/history$/,
+        handler: getThreadHistory,
+    },
 
     // Runs
+    {
+        method: 'POST',
+        pattern: /^\/runs$/,
+        handler: createStatelessRun,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/runs$/,
+        handler: createRun,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/runs\/wait$/,
+        handler: waitStatelessRun,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/runs\/wait$/,
+        handler: waitRun,
+    },
     {
         method: 'POST',
         pattern: /^\/threads\/[^/]+\/runs\/stream$/,
@@ -64,6 +198,21 @@ const routes: Route[] = [
         pattern: /^\/threads\/[^/]+\/runs$/,
         handler: listRuns,
     },
+    {
+        method: 'GET',
+        pattern: /^\/threads\/[^/]+\/runs\/[^/]+$/,
+        handler: getRun,
+    },
+    {
+        method: 'DELETE',
+        pattern: /^\/threads\/[^/]+\/runs\/[^/]+$/,
+        handler: deleteRun,
+    },
+    {
+        method: 'GET',
+        pattern: /^\/threads\/[^/]+\/runs\/[^/]+\/join$/,
+        handler: joinRun,
+    },
     {
         method: 'POST',
         pattern: /^\/threads\/[^/]+\/runs\/[^/]+\/cancel$/,
@@ -74,6 +223,65 @@ const routes: Route[] = [
         pattern: /^\/threads\/[^/]+\/state$/,
         handler: updateThreadState,
     },
+
+    // Crons
+    {
+        method: 'POST',
+        pattern: /^\/runs\/crons$/,
+        handler: createCron,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/threads\/[^/]+\/runs\/crons$/,
+        handler: createThreadCron,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/runs\/crons\/search$/,
+        handler: searchCrons,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/runs\/crons\/count$/,
+        handler: countCrons,
+    },
+    {
+        method: 'PATCH',
+        pattern: /^\/runs\/crons\/[^/]+$/,
+        handler: updateCron,
+    },
+    {
+        method: 'DELETE',
+        pattern: /^\/runs\/crons\/[^/]+$/,
+        handler: deleteCron,
+    },
+
+    // Store
+    {
+        method: 'PUT',
+        pattern: /^\/store\/items$/,
+        handler: putStoreItem,
+    },
+    {
+        method: 'GET',
+        pattern: /^\/store\/items$/,
+        handler: getStoreItem,
+    },
+    {
+        method: 'DELETE',
+        pattern: /^\/store\/items$/,
+        handler: deleteStoreItem,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/store\/items\/search$/,
+        handler: searchStoreItems,
+    },
+    {
+        method: 'POST',
+        pattern: /^\/store\/namespaces$/,
+        handler: listStoreNamespaces,
+    },
 ];
 
 const replaceRequest = (req: Request) => {
@@ -83,7 +291,12 @@ const replaceRequest = (req: Request) => {
         basePath = path.split('/threads')[0];
     } else if (path.includes('/assistants')) {
         basePath = path.split('/assistants')[0];
+    } else if (path.includes('/runs')) {
+        basePath = path.split('/runs')[0];
+    } else if (path.includes('/store')) {
+        basePath = path.split('/store')[0];
     }
+    if (!basePath) return req;
     return new Request(req.url.replace(basePath, ''), {
         method: req.method,
         headers: req.headers,
@@ -96,6 +309,8 @@ const replaceRequest = (req: Request) => {
  * 主路由处理器
  */
 export async function handleRequest(req: Request, context: LangGraphServerContext = {}): Promise<Response> {
+    // 客户端断开连接时原请求的 signal 会中止，直接传给处理函数
+    const { signal } = req;
     req = replaceRequest(req);
     try {
         // 初始化全局配置
@@ -108,7 +323,7 @@ export async function handleRequest(req: Request, context: LangGraphServerContex
         // 查找匹配的路由
         for (const route of routes) {
             if (route.method === method && route.pattern.test(pathname)) {
-                return await route.handler(req, context);
+                return await route.handler(req, context, signal);
             }
         }
 
@@ -124,3 +339,5 @@ export async function handleRequest(req: Request, context: LangGraphServerContex
 export * from './assistants';
 export * from './threads';
 export * from './runs';
+export * from './crons';
+export * from './store';
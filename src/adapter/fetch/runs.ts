@@ -19,36 +19,120 @@ import {
     errorResponse,
     createSSEStream,
     withHeartbeat,
+    applyLangGraphContext,
 } from './utils';
 import { LangGraphServerContext } from './context';
+import { StreamInputData } from '../../types';
+
+/**
+ * 将 run 的请求体转换为 StreamInputData，字段名转换为驼峰形式
+ */
+const toStreamInput = (payload: z.infer<typeof RunStreamPayloadSchema>): StreamInputData => camelcaseKeys(payload);
+
+/**
+ * POST /threads/:thread_id/runs
+ */
+export async function createRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = applyLangGraphContext(validate(RunStreamPayloadSchema, body), context);
+
+        const run = await client.runs.create(thread_id, payload.assistant_id, toStreamInput(payload));
+
+        return jsonResponse(run);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /runs
+ */
+export async function createStatelessRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = applyLangGraphContext(validate(RunStreamPayloadSchema, body), context);
+
+        const run = await client.runs.create(null, payload.assistant_id, toStreamInput(payload));
+
+        return jsonResponse(run);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/:thread_id/runs/wait
+ */
+export async function waitRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs/wait');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = applyLangGraphContext(validate(RunStreamPayloadSchema, body), context);
+
+        const values = await client.runs.wait(thread_id, payload.assistant_id, toStreamInput(payload));
+
+        return jsonResponse(values);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /runs/wait
+ */
+export async function waitStatelessRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = applyLangGraphContext(validate(RunStreamPayloadSchema, body), context);
+
+        const values = await client.runs.wait(null, payload.assistant_id, toStreamInput(payload));
+
+        return jsonResponse(values);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
 
 /**
  * POST /threads/:thread_id/runs/stream
  */
-export async function streamRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+export async function streamRun(
+    req: Request,
+    context: LangGraphServerContext,
+    signal: AbortSignal = req.signal,
+): Promise<Response> {
     try {
         const params = parsePathParams(req.url, '/threads/:thread_id/runs/stream');
         const { thread_id } = validate(ThreadIdParamSchema, params);
 
         const body = await req.json();
-        const payload = validate(RunStreamPayloadSchema, body);
+        const payload = applyLangGraphContext(validate(RunStreamPayloadSchema, body), context);
+
+        // 传入请求的 signal，on_disconnect 为 cancel 时客户端断开连接会取消 run
+        const stream = client.runs.stream(thread_id, payload.assistant_id, {
+            ...toStreamInput(payload),
+            signal,
+        });
+        // 先取出第一条事件，使创建 run 时的错误（如 409 冲突）以普通 HTTP 响应返回
+        const first = await stream.next();
 
         return createSSEStream(
             withHeartbeat(async (writer) => {
-                payload.config = payload.config || {};
-                payload.config.configurable = payload.config.configurable || {};
-
-                const langgraphContext = context?.langgraph_context;
-                if (langgraphContext) {
-                    Object.assign(payload.config.configurable, langgraphContext);
+                if (!first.done) {
+                    await writer.writeSSE({
+                        data: serialiseAsDict(first.value.data) ?? '',
+                        event: first.value.event,
+                        id: first.value.id,
+                    });
                 }
-
-                for await (const { event, data } of client.runs.stream(
-                    thread_id,
-                    payload.assistant_id,
-                    camelcaseKeys(payload) as any,
-                )) {
-                    await writer.writeSSE({ data: serialiseAsDict(data) ?? '', event });
+                for await (const { event, data, id } of stream) {
+                    await writer.writeSSE({ data: serialiseAsDict(data) ?? '', event, id });
                 }
             }),
         );
@@ -60,7 +144,11 @@ export async function streamRun(req: Request, context: LangGraphServerContext):
 /**
  * GET /threads/:thread_id/runs/:run_id/stream
  */
-export async function joinRunStream(req: Request, context: LangGraphServerContext): Promise<Response> {
+export async function joinRunStream(
+    req: Request,
+    context: LangGraphServerContext,
+    signal: AbortSignal = req.signal,
+): Promise<Response> {
     try {
         const params = parsePathParams(req.url, '/threads/:thread_id/runs/:run_id/stream');
         const { thread_id, run_id } = validate(RunIdParamSchema, params);
@@ -78,14 +166,15 @@ export async function joinRunStream(req: Request, context: LangGraphServerContex
                     };
 
                     // 监听请求的 abort 信号
-                    req.signal?.addEventListener('abort', cleanup);
+                    signal.addEventListener('abort', cleanup);
                 }
 
                 try {
                     for await (const { event, data, id } of client.runs.joinStream(thread_id, run_id, {
                         signal: controller.signal,
                         cancelOnDisconnect: cancel_on_disconnect,
-                        lastEventId: last_event_id,
+                        // 浏览器 EventSource 重连时通过 Last-Event-ID 请求头携带
+                        lastEventId: last_event_id ?? req.headers.get('Last-Event-ID') ?? undefined,
                         streamMode: stream_mode ? [stream_mode] : undefined,
                     })) {
                         await writer.writeSSE({
@@ -131,6 +220,58 @@ export async function listRuns(req: Request, context: LangGraphServerContext): P
     }
 }
 
+/**
+ * GET /threads/:thread_id/runs/:run_id
+ */
+export async function getRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs/:run_id');
+        const { thread_id, run_id } = validate(RunIdParamSchema, params);
+
+        const run = await client.runs.get(thread_id, run_id);
+
+        return jsonResponse(run);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * DELETE /threads/:thread_id/runs/:run_id
+ */
+export async function deleteRun(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs/:run_id');
+        const { thread_id, run_id } = validate(RunIdParamSchema, params);
+
+        await client.runs.delete(thread_id, run_id);
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * GET /threads/:thread_id/runs/:run_id/join
+ */
+export async function joinRun(
+    req: Request,
+    context: LangGraphServerContext,
+    signal: AbortSignal = req.signal,
+): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/runs/:run_id/join');
+        const { thread_id, run_id } = validate(RunIdParamSchema, params);
+
+        const values = await client.runs.join(thread_id, run_id, { signal });
+
+        return jsonResponse(values);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
 /**
  * POST /threads/:thread_id/runs/:run_id/cancel
  */
@@ -142,11 +283,8 @@ export async function cancelRun(req: Request, context: LangGraphServerContext):
         const queryParams = parseQueryParams(req.url);
         const { wait, action } = validate(RunCancelQuerySchema, queryParams);
 
-        const cancel = client.runs.cancel(thread_id, run_id, wait, action);
-
-        if (wait) {
-            await cancel;
-        }
+        // runs.cancel 会先校验 run，wait 为 false 时不等待图循环停止
+        await client.runs.cancel(thread_id, run_id, wait, action);
 
         return new Response(null, { status: wait ? 204 : 202 });
     } catch (error) {
@@ -163,9 +301,13 @@ export async function updateThreadState(req: Request, context: LangGraphServerCo
         const { thread_id } = validate(z.object({ thread_id: z.string().uuid() }), params);
 
         const body = await req.json();
-        const payload = validate(ThreadStateUpdate, body);
+        const { supersteps, ...payload } = validate(ThreadStateUpdate, body);
 
-        const inserted = await client.threads.updateState(thread_id, payload);
+        // 与创建 thread 一致，supersteps 中的 values 不做驼峰转换
+        const steps = supersteps?.map(({ updates }) => ({
+            updates: updates.map(({ as_node, ...update }) => ({ ...update, asNode: as_node })),
+        }));
+        const inserted = await client.threads.updateState(thread_id, { ...camelcaseKeys(payload), supersteps: steps });
 
         return jsonResponse(inserted);
     } catch (error) {
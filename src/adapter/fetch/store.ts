@@ -0,0 +1,104 @@
+import type { Item } from '@langchain/langgraph-checkpoint';
+import { client } from './endpoint';
+import {
+    StorePutPayloadSchema,
+    StoreGetQuerySchema,
+    StoreDeletePayloadSchema,
+    StoreSearchPayloadSchema,
+    StoreNamespacesPayloadSchema,
+} from '../zod';
+import camelcaseKeys from 'camelcase-keys';
+import { parseQueryParams, validate, jsonResponse, errorResponse } from './utils';
+import { LangGraphServerContext } from './context';
+import { HTTPError } from '../../utils/errors';
+
+/**
+ * 将 Store 中的 Item 转换为 LangGraph Platform 的返回格式
+ */
+const serializeItem = <T extends Item>({ createdAt, updatedAt, ...item }: T) => ({
+    ...item,
+    created_at: createdAt.toISOString(),
+    updated_at: updatedAt.toISOString(),
+});
+
+/**
+ * PUT /store/items
+ */
+export async function putStoreItem(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const { namespace, key, value, index } = validate(StorePutPayloadSchema, body);
+
+        await client.store.putItem(namespace, key, value, { index });
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * GET /store/items
+ */
+export async function getStoreItem(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const { namespace, key } = validate(StoreGetQuerySchema, parseQueryParams(req.url));
+
+        const item = await client.store.getItem(namespace, key);
+        if (!item) {
+            throw new HTTPError(404, `Item with key ${key} not found.`);
+        }
+
+        return jsonResponse(serializeItem(item));
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * DELETE /store/items
+ */
+export async function deleteStoreItem(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const { namespace, key } = validate(StoreDeletePayloadSchema, body);
+
+        await client.store.deleteItem(namespace, key);
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /store/items/search
+ */
+export async function searchStoreItems(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const { namespace_prefix, ...options } = validate(StoreSearchPayloadSchema, body);
+
+        const { items } = await client.store.searchItems(namespace_prefix, options);
+
+        return jsonResponse({ items: items.map(serializeItem) });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /store/namespaces
+ */
+export async function listStoreNamespaces(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(StoreNamespacesPayloadSchema, body);
+
+        const data = await client.store.listNamespaces(camelcaseKeys(payload));
+
+        return jsonResponse(data);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -1,8 +1,20 @@
 import { client } from './endpoint';
-import { ThreadIdParamSchema, ThreadCreatePayloadSchema, ThreadSearchPayloadSchema } from '../zod';
+import {
+    ThreadIdParamSchema,
+    ThreadCreatePayloadSchema,
+    ThreadSearchPayloadSchema,
+    ThreadCountPayloadSchema,
+    ThreadCheckpointParamSchema,
+    ThreadStateQuerySchema,
+    ThreadStateCheckpointPayloadSchema,
+    ThreadHistoryPayloadSchema,
+    ThreadPatchPayloadSchema,
+    ThreadPrunePayloadSchema,
+} from '../zod';
 import camelcaseKeys from 'camelcase-keys';
-import { parsePathParams, validate, jsonResponse, errorResponse } from './utils';
+import { parsePathParams, parseQueryParams, validate, jsonResponse, errorResponse } from './utils';
 import { LangGraphServerContext } from './context';
+import type { ThreadSuperstep } from '../../graph/state';
 
 /**
  * POST /threads
@@ -10,9 +22,13 @@ import { LangGraphServerContext } from './context';
 export async function createThread(req: Request, context: LangGraphServerContext): Promise<Response> {
     try {
         const body = await req.json();
-        const payload = validate(ThreadCreatePayloadSchema, body);
+        const { supersteps, ...payload } = validate(ThreadCreatePayloadSchema, body);
 
-        const thread = await client.threads.create(camelcaseKeys(payload));
+        // supersteps 中的 values 是用户的 state，不能整体转换为驼峰
+        const steps: ThreadSuperstep[] | undefined = supersteps?.map(({ updates }) => ({
+            updates: updates.map(({ as_node, ...update }) => ({ ...update, asNode: as_node })),
+        }));
+        const thread = await client.threads.create({ ...camelcaseKeys(payload), supersteps: steps });
 
         return jsonResponse(thread);
     } catch (error) {
@@ -29,15 +45,38 @@ export async function searchThreads(req: Request, context: LangGraphServerContex
         const payload = validate(ThreadSearchPayloadSchema, body);
 
         const result = await client.threads.search(camelcaseKeys(payload));
+        // 总数不受分页影响，使用相同的过滤条件单独统计
+        const total = await client.threads.count({
+            metadata: payload.metadata,
+            values: payload.values,
+            status: payload.status,
+            ids: payload.ids,
+        });
 
         return jsonResponse(result, 200, {
-            'X-Pagination-Total': result.length.toString(),
+            'X-Pagination-Total': total.toString(),
         });
     } catch (error) {
         return errorResponse(error);
     }
 }
 
+/**
+ * POST /threads/count
+ */
+export async function countThreads(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(ThreadCountPayloadSchema, body);
+
+        const count = await client.threads.count(payload);
+
+        return jsonResponse(count);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
 /**
  * GET /threads/:thread_id
  */
@@ -69,3 +108,126 @@ export async function deleteThread(req: Request, context: LangGraphServerContext
         return errorResponse(error);
     }
 }
+
+/**
+ * PATCH /threads/:thread_id
+ */
+export async function patchThread(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = validate(ThreadPatchPayloadSchema, body);
+
+        const thread = await client.threads.update(thread_id, payload);
+
+        return jsonResponse(thread);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/:thread_id/copy
+ */
+export async function copyThread(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/copy');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const thread = await client.threads.copy(thread_id);
+
+        return jsonResponse(thread);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/prune
+ */
+export async function pruneThreads(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const body = await req.json();
+        const payload = validate(ThreadPrunePayloadSchema, body);
+
+        const prunedCount = await client.threads.prune(payload);
+
+        return jsonResponse({ pruned_count: prunedCount });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * GET /threads/:thread_id/state
+ */
+export async function getThreadState(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/state');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+        const { subgraphs } = validate(ThreadStateQuerySchema, parseQueryParams(req.url));
+
+        const state = await client.threads.getState(thread_id, undefined, { subgraphs });
+
+        return jsonResponse(state);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * GET /threads/:thread_id/state/:checkpoint_id
+ */
+export async function getThreadStateAtCheckpoint(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/state/:checkpoint_id');
+        const { thread_id, checkpoint_id } = validate(ThreadCheckpointParamSchema, params);
+        const { subgraphs } = validate(ThreadStateQuerySchema, parseQueryParams(req.url));
+
+        const state = await client.threads.getState(thread_id, checkpoint_id, { subgraphs });
+
+        return jsonResponse(state);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/:thread_id/state/checkpoint
+ */
+export async function postThreadStateAtCheckpoint(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/state/checkpoint');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const body = await req.json();
+        const { checkpoint, subgraphs } = validate(ThreadStateCheckpointPayloadSchema, body);
+
+        const state = await client.threads.getState(thread_id, checkpoint, { subgraphs });
+
+        return jsonResponse(state);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+/**
+ * POST /threads/:thread_id/history
+ */
+export async function getThreadHistory(req: Request, context: LangGraphServerContext): Promise<Response> {
+    try {
+        const params = parsePathParams(req.url, '/threads/:thread_id/history');
+        const { thread_id } = validate(ThreadIdParamSchema, params);
+
+        const body = await req.json();
+        const payload = validate(ThreadHistoryPayloadSchema, body);
+
+        const history = await client.threads.getHistory(thread_id, payload);
+
+        return jsonResponse(history);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -1,4 +1,23 @@
 import z from 'zod';
+import { HTTPError } from '../../utils/errors';
+import { LangGraphServerContext } from './context';
+
+/**
+ * 将 langgraph_context 混合到 payload.config.configurable 中
+ */
+export function applyLangGraphContext<T extends { config?: { configurable?: Record<string, unknown> } }>(
+    payload: T,
+    context: LangGraphServerContext,
+): T {
+    payload.config = payload.config || {};
+    payload.config.configurable = payload.config.configurable || {};
+
+    const langgraphContext = context?.langgraph_context;
+    if (langgraphContext) {
+        Object.assign(payload.config.configurable, langgraphContext);
+    }
+    return payload;
+}
 
 /**
  * 解析 URL 路径参数
@@ -94,6 +113,10 @@ export function errorResponse(error: unknown, status = 500): Response {
         );
     }
 
+    if (error instanceof HTTPError) {
+        return jsonResponse({ error: error.message }, error.status);
+    }
+
     return jsonResponse(
         {
             error: error instanceof Error ? error.message : 'Unknown error',
@@ -7,6 +7,8 @@ declare global {
               GET: (req: NextRequest) => Promise<any>;
               POST: (req: NextRequest) => Promise<any>;
               DELETE: (req: NextRequest) => Promise<any>;
+              PATCH: (req: NextRequest) => Promise<any>;
+              PUT: (req: NextRequest) => Promise<any>;
           }>
         | undefined;
 }
@@ -28,11 +30,13 @@ export async function ensureInitialized(attachGraphPromise: () => Promise<void>)
         globalThis.LG_INIT_PROMISE = (async () => {
             await LangGraphGlobal.initGlobal();
             await attachGraphPromise();
-            const { GET, POST, DELETE } = await import('./router');
+            const { GET, POST, DELETE, PATCH, PUT } = await import('./router');
             return {
                 GET,
                 POST,
                 DELETE,
+                PATCH,
+                PUT,
             };
         })();
     }
@@ -34,3 +34,13 @@ export async function DELETE(req: NextRequest) {
     const context = extractContext(req);
     return await handleRequest(req, context);
 }
+
+export async function PATCH(req: NextRequest) {
+    const context = extractContext(req);
+    return await handleRequest(req, context);
+}
+
+export async function PUT(req: NextRequest) {
+    const context = extractContext(req);
+    return await handleRequest(req, context);
+}
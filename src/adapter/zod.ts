@@ -36,7 +36,7 @@ export const MetadataSchema = z
 
 export const SendSchema = z.object({
     node: z.string(),
-    input: z.unknown().optional(),
+    input: z.unknown(),
 });
 
 export const CommandSchema = z.object({
@@ -48,7 +48,19 @@ export const CommandSchema = z.object({
     goto: z.union([SendSchema, z.array(SendSchema), z.string(), z.array(z.string())]).optional(),
 });
 
+export const CheckpointSchema = z.object({
+    checkpoint_id: z.string().optional(),
+    checkpoint_ns: z.string().optional(),
+    checkpoint_map: z.record(z.string(), z.unknown()).nullish(),
+});
+
 // 公共的查询参数验证 schema
+/**
+ * 布尔查询参数，只接受 true / false，z.coerce.boolean 会把字符串 'false' 也转换为 true。
+ * parseQueryParams 已经转换过的布尔值直接通过
+ */
+const QueryBooleanSchema = z.union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')]);
+
 export const PaginationQuerySchema = z.object({
     limit: z.number().int().optional(),
     offset: z.number().int().optional(),
@@ -64,11 +76,53 @@ export const RunIdParamSchema = z.object({
 });
 
 // Assistants 相关的 schema
+export const AssistantIdParamSchema = z.object({
+    assistant_id: z.string(),
+});
+
 export const AssistantsSearchSchema = z.object({
     graph_id: z.string().optional(),
     metadata: MetadataSchema.optional(),
     limit: z.number().int().optional(),
     offset: z.number().int().optional(),
+    sort_by: z.enum(['assistant_id', 'graph_id', 'name', 'created_at', 'updated_at']).optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
+});
+
+export const AssistantsCountSchema = AssistantsSearchSchema.pick({ graph_id: true, metadata: true });
+
+export const AssistantCreatePayloadSchema = z
+    .object({
+        assistant_id: z.string().describe('The ID of the assistant. If not provided, an ID is generated.').optional(),
+        graph_id: z.string().describe('The graph to use.'),
+        config: AssistantConfig.optional(),
+        context: z.record(z.string(), z.unknown()).optional(),
+        metadata: MetadataSchema.optional(),
+        if_exists: z.union([z.literal('raise'), z.literal('do_nothing')]).optional(),
+        name: z.string().optional(),
+        description: z.string().optional(),
+    })
+    .describe('Payload for creating an assistant.');
+
+export const AssistantUpdatePayloadSchema = z
+    .object({
+        graph_id: z.string().optional(),
+        config: AssistantConfig.optional(),
+        context: z.record(z.string(), z.unknown()).optional(),
+        metadata: MetadataSchema.optional(),
+        name: z.string().optional(),
+        description: z.string().optional(),
+    })
+    .describe('Payload for updating an assistant.');
+
+export const AssistantVersionsSearchSchema = z.object({
+    metadata: MetadataSchema.optional(),
+    limit: z.number().int().optional(),
+    offset: z.number().int().optional(),
+});
+
+export const AssistantLatestPayloadSchema = z.object({
+    version: z.number().int(),
 });
 
 export const AssistantGraphQuerySchema = z.object({
@@ -80,10 +134,12 @@ export const RunStreamPayloadSchema = z
     .object({
         assistant_id: z.union([z.string().uuid(), z.string()]),
         checkpoint_id: z.string().optional(),
+        checkpoint: CheckpointSchema.optional(),
         input: z.any().optional(),
         command: CommandSchema.optional(),
         metadata: MetadataSchema.optional(),
         config: AssistantConfig.optional(),
+        context: z.record(z.string(), z.unknown()).optional(),
         webhook: z.string().optional(),
         interrupt_before: z.union([z.literal('*'), z.array(z.string())]).optional(),
         interrupt_after: z.union([z.literal('*'), z.array(z.string())]).optional(),
@@ -95,6 +151,7 @@ export const RunStreamPayloadSchema = z
         stream_subgraphs: z.boolean().optional(),
         stream_resumable: z.boolean().optional(),
         after_seconds: z.number().optional(),
+        timeout_seconds: z.number().positive().optional(),
         if_not_exists: z.enum(['create', 'reject']).optional(),
         on_completion: z.enum(['complete', 'continue']).optional(),
         feedback_keys: z.array(z.string()).optional(),
@@ -109,22 +166,75 @@ export const RunListQuerySchema = z.object({
 });
 
 export const RunCancelQuerySchema = z.object({
-    wait: z.coerce.boolean().optional().default(false),
+    wait: QueryBooleanSchema.optional().default(false),
     action: z.enum(['interrupt', 'rollback']).optional().default('interrupt'),
 });
 
 export const RunJoinStreamQuerySchema = z.object({
-    cancel_on_disconnect: z.coerce.boolean().optional().default(false),
-    last_event_id: z.string().optional(),
+    cancel_on_disconnect: QueryBooleanSchema.optional().default(false),
+    last_event_id: z.coerce.string().optional(),
     stream_mode: z.enum(['values', 'messages', 'messages-tuple', 'updates', 'events', 'debug', 'custom']).optional(),
 });
 
+// Crons 相关的 schema
+export const CronIdParamSchema = z.object({
+    cron_id: z.string().uuid(),
+});
+
+export const CronCreatePayloadSchema = RunStreamPayloadSchema.omit({ on_disconnect: true })
+    .extend({
+        schedule: z.string().describe('The cron schedule, in standard 5-field cron format (UTC).'),
+        end_time: z.string().datetime({ offset: true }).optional(),
+    })
+    .describe('Payload for creating a cron job.');
+
+export const CronUpdatePayloadSchema = CronCreatePayloadSchema.omit({ assistant_id: true })
+    .partial()
+    .extend({
+        end_time: z.string().datetime({ offset: true }).nullish(),
+    })
+    .describe('Payload for updating a cron job.');
+
+export const CronSearchPayloadSchema = z
+    .object({
+        assistant_id: z.string().optional(),
+        thread_id: z.string().uuid().optional(),
+        limit: z.number().int().gte(1).lte(1000).optional().default(10),
+        offset: z.number().int().gte(0).optional().default(0),
+        sort_by: z
+            .enum(['cron_id', 'assistant_id', 'thread_id', 'created_at', 'updated_at', 'next_run_date'])
+            .optional(),
+        sort_order: z.enum(['asc', 'desc']).optional(),
+    })
+    .describe('Payload for searching cron jobs.');
+
+export const CronCountPayloadSchema = z
+    .object({
+        assistant_id: z.string().optional(),
+        thread_id: z.string().uuid().optional(),
+    })
+    .describe('Payload for counting cron jobs.');
+
 // Threads 相关的 schema
+const ThreadSuperstepsSchema = z.array(
+    z.object({
+        updates: z.array(
+            z.object({
+                values: z.unknown().optional(),
+                command: CommandSchema.optional(),
+                as_node: z.string(),
+            }),
+        ),
+    }),
+);
+
 export const ThreadCreatePayloadSchema = z
     .object({
         thread_id: z.string().uuid().describe('The ID of the thread. If not provided, an ID is generated.').optional(),
         metadata: MetadataSchema.optional(),
         if_exists: z.union([z.literal('raise'), z.literal('do_nothing')]).optional(),
+        graph_id: z.string().optional(),
+        supersteps: ThreadSuperstepsSchema.describe('Supersteps to apply to the thread after creation.').optional(),
     })
     .describe('Payload for creating a thread.');
 
@@ -132,20 +242,131 @@ export const ThreadSearchPayloadSchema = z
     .object({
         metadata: MetadataSchema.describe('Metadata to search for.').optional(),
         status: z.enum(['idle', 'busy', 'interrupted', 'error']).describe('Filter by thread status.').optional(),
-        values: z.any().describe('Filter by thread values.').optional(),
+        values: z
+            .record(z.string(), z.unknown())
+            .describe('Filter by thread values. Keys are JSON paths separated by dots, e.g. user.name.')
+            .optional(),
+        ids: z.array(z.string()).describe('Only return threads with these IDs.').optional(),
         limit: z.number().int().gte(1).lte(1000).describe('Maximum number to return.').optional(),
         offset: z.number().int().gte(0).describe('Offset to start from.').optional(),
         sort_by: z.enum(['thread_id', 'status', 'created_at', 'updated_at']).describe('Sort by field.').optional(),
         sort_order: z.enum(['asc', 'desc']).describe('Sort order.').optional(),
         without_details: z.boolean().describe('Whether to return values.').optional(),
+        select: z
+            .array(z.enum(['thread_id', 'created_at', 'updated_at', 'metadata', 'status', 'values', 'interrupts']))
+            .describe('Only return these fields.')
+            .optional(),
     })
     .describe('Payload for listing threads.');
 
+export const ThreadCountPayloadSchema = ThreadSearchPayloadSchema.pick({
+    metadata: true,
+    status: true,
+    values: true,
+    ids: true,
+}).describe('Payload for counting threads.');
+
+export const ThreadPatchPayloadSchema = z
+    .object({
+        metadata: MetadataSchema.describe('Metadata to merge with existing thread metadata.').optional(),
+    })
+    .describe('Payload for updating a thread.');
+
+export const ThreadPrunePayloadSchema = z
+    .object({
+        before: z
+            .string()
+            .datetime({ offset: true })
+            .describe('Delete threads last updated before this time.')
+            .optional(),
+        status: z.enum(['idle', 'busy', 'interrupted', 'error']).describe('Filter by thread status.').optional(),
+        metadata: MetadataSchema.describe('Metadata to filter by.').optional(),
+    })
+    .describe('Payload for pruning threads.');
+
+export const ThreadCheckpointParamSchema = z.object({
+    thread_id: z.string().uuid(),
+    checkpoint_id: z.string(),
+});
+
+export const ThreadStateQuerySchema = z.object({
+    subgraphs: QueryBooleanSchema.optional().default(false),
+});
+
+export const ThreadStateCheckpointPayloadSchema = z
+    .object({
+        checkpoint: CheckpointSchema,
+        subgraphs: z.boolean().optional(),
+    })
+    .describe('Payload for getting the state of a thread at a checkpoint.');
+
+export const ThreadHistoryPayloadSchema = z
+    .object({
+        limit: z.number().int().gte(1).lte(1000).optional().default(10),
+        before: z.union([z.string(), AssistantConfig]).optional(),
+        metadata: MetadataSchema.optional(),
+        checkpoint: CheckpointSchema.optional(),
+    })
+    .describe('Payload for getting the history of a thread.');
+
 export const ThreadStateUpdate = z
     .object({
         values: z.union([z.record(z.string(), z.unknown()), z.array(z.record(z.string(), z.unknown()))]).nullish(),
-        // as_node: z.string().optional(),
-        // checkpoint_id: z.string().optional(),
-        // checkpoint: CheckpointSchema.nullish(),
+        as_node: z.string().optional(),
+        checkpoint_id: z.string().optional(),
+        checkpoint: CheckpointSchema.optional(),
+        command: CommandSchema.optional().describe('The command to apply, e.g. to resume an interrupt.'),
+        supersteps: ThreadSuperstepsSchema.describe('Supersteps to apply in order.').optional(),
     })
     .describe('Payload for adding state to a thread.');
+
+// Store 相关的 schema
+const StoreNamespaceSchema = z.array(
+    z.string().refine((label) => label.length > 0 && !label.includes('.'), {
+        message: 'Namespace labels must be non-empty and cannot contain periods.',
+    }),
+);
+
+export const StorePutPayloadSchema = z
+    .object({
+        namespace: StoreNamespaceSchema.min(1),
+        key: z.string(),
+        value: z.record(z.string(), z.unknown()),
+        index: z.union([z.literal(false), z.array(z.string())]).optional(),
+    })
+    .describe('Payload for putting an item into the store.');
+
+export const StoreGetQuerySchema = z.object({
+    namespace: z.coerce
+        .string()
+        .optional()
+        .transform((namespace) => (namespace ? namespace.split('.') : [])),
+    key: z.coerce.string(),
+});
+
+export const StoreDeletePayloadSchema = z
+    .object({
+        namespace: StoreNamespaceSchema,
+        key: z.string(),
+    })
+    .describe('Payload for deleting an item from the store.');
+
+export const StoreSearchPayloadSchema = z
+    .object({
+        namespace_prefix: StoreNamespaceSchema.optional().default([]),
+        filter: z.record(z.string(), z.unknown()).optional(),
+        limit: z.number().int().gte(1).lte(1000).optional().default(10),
+        offset: z.number().int().gte(0).optional().default(0),
+        query: z.string().optional(),
+    })
+    .describe('Payload for searching items in the store.');
+
+export const StoreNamespacesPayloadSchema = z
+    .object({
+        prefix: z.array(z.string()).optional(),
+        suffix: z.array(z.string()).optional(),
+        max_depth: z.number().int().gte(1).optional(),
+        limit: z.number().int().gte(1).lte(1000).optional().default(100),
+        offset: z.number().int().gte(0).optional().default(0),
+    })
+    .describe('Payload for listing namespaces in the store.');
@@ -0,0 +1,55 @@
+import { Assistant, AssistantVersion, Config, Metadata, OnConflictBehavior } from '@langgraph-js/sdk';
+import { AssistantSortBy, SortOrder } from '../types';
+
+export interface BaseAssistantsManager {
+    setup(): Promise<void>;
+    create(payload: {
+        graphId: string;
+        assistantId?: string;
+        config?: Config;
+        context?: unknown;
+        metadata?: Metadata;
+        /**
+         * @default 'raise'
+         */
+        ifExists?: OnConflictBehavior;
+        name?: string;
+        description?: string;
+    }): Promise<Assistant>;
+    get(assistantId: string): Promise<Assistant>;
+    /**
+     * 更新 assistant，每次更新都会生成一个新版本
+     */
+    update(
+        assistantId: string,
+        payload: {
+            graphId?: string;
+            config?: Config;
+            context?: unknown;
+            metadata?: Metadata;
+            name?: string;
+            description?: string;
+        },
+    ): Promise<Assistant>;
+    delete(assistantId: string): Promise<void>;
+    search(query?: {
+        graphId?: string;
+        metadata?: Metadata;
+        limit?: number;
+        offset?: number;
+        sortBy?: AssistantSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Assistant[]>;
+    /**
+     * 统计符合条件的 assistant 数量，不受分页影响
+     */
+    count(query?: { graphId?: string; metadata?: Metadata }): Promise<number>;
+    getVersions(
+        assistantId: string,
+        payload?: { metadata?: Metadata; limit?: number; offset?: number },
+    ): Promise<AssistantVersion[]>;
+    /**
+     * 将 assistant 切换到指定版本
+     */
+    setLatest(assistantId: string, version: number): Promise<Assistant>;
+}
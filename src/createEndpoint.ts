@@ -1,10 +1,47 @@
 import { StreamEvent } from '@langchain/core/tracers/log_stream';
-import { streamState } from './graph/stream.js';
-import { Assistant, Run, StreamMode, Metadata, AssistantGraph } from '@langchain/langgraph-sdk';
+import { createMetadataEvent, serialiseAsDict, streamState, waitUnlessAborted } from './graph/stream.js';
+import { cancelRun, createRunWithStrategy, interruptRun, interruptThreadRuns, purgeThread } from './graph/multitask.js';
+import { copyCheckpoints } from './graph/checkpoints.js';
+import { bulkUpdateThreadState } from './graph/state.js';
+import { Assistant, Run, StreamMode, Metadata, AssistantGraph, Cron } from '@langchain/langgraph-sdk';
 import { getGraph, GRAPHS } from './utils/getGraph.js';
 import { LangGraphGlobal } from './global.js';
-import { AssistantSortBy, CancelAction, ILangGraphClient, RunStatus, SortOrder, StreamInputData } from './types.js';
+import {
+    AssistantSortBy,
+    CancelAction,
+    ILangGraphClient,
+    RunKwargs,
+    RunStatus,
+    SortOrder,
+    StreamInputData,
+} from './types.js';
+import { HTTPError } from './utils/errors.js';
+import { EventMessage, isEventAfter } from './queue/event_message.js';
+import { BaseThreadsManager } from './threads/index.js';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { getCronNextRunDate } from './crons/schedule.js';
 export { registerGraph } from './utils/getGraph.js';
+export { registerStoreIndex, type StoreIndexConfig, type EmbedFunction } from './storage/store_index.js';
+
+/**
+ * 为每个已注册的图创建一个默认 assistant，assistant_id 与 graph_id 相同，
+ * 兼容直接使用 graph_id 作为 assistant_id 的客户端。
+ * 每次都向存储确认而不在进程内缓存，默认 assistant 被删除（包括被其他实例删除）后会重新创建
+ */
+const ensureGraphAssistants = async () => {
+    for (const graphId of Object.keys(GRAPHS)) {
+        await LangGraphGlobal.globalAssistantsManager.create({
+            assistantId: graphId,
+            graphId,
+            metadata: { created_by: 'system' },
+            ifExists: 'do_nothing',
+        });
+    }
+};
+
+const getAssistants = () => {
+    return LangGraphGlobal.globalAssistantsManager;
+};
 
 export const AssistantEndpoint: ILangGraphClient['assistants'] = {
     async search(query?: {
@@ -15,39 +52,42 @@ export const AssistantEndpoint: ILangGraphClient['assistants'] = {
         sortBy?: AssistantSortBy;
         sortOrder?: SortOrder;
     }): Promise<Assistant[]> {
-        if (query?.graphId) {
-            return [
-                {
-                    assistant_id: query.graphId,
-                    graph_id: query.graphId,
-                    config: {},
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString(),
-                    metadata: {},
-                    version: 1,
-                    name: query.graphId,
-                    description: '',
-                } as Assistant,
-            ];
+        await ensureGraphAssistants();
+        return getAssistants().search(query);
+    },
+    async count(query) {
+        await ensureGraphAssistants();
+        return getAssistants().count(query);
+    },
+    async get(assistantId: string): Promise<Assistant> {
+        await ensureGraphAssistants();
+        return getAssistants().get(assistantId);
+    },
+    async create(payload) {
+        if (!GRAPHS[payload.graphId]) {
+            throw new HTTPError(404, `Graph "${payload.graphId}" not found`);
+        }
+        return getAssistants().create(payload);
+    },
+    async update(assistantId, payload) {
+        if (payload.graphId && !GRAPHS[payload.graphId]) {
+            throw new HTTPError(404, `Graph "${payload.graphId}" not found`);
         }
-        return Object.entries(GRAPHS).map(
-            ([graphId, _]) =>
-                ({
-                    assistant_id: graphId,
-                    graph_id: graphId,
-                    config: {},
-                    metadata: {},
-                    version: 1,
-                    name: graphId,
-                    description: '',
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString(),
-                } as Assistant),
-        );
+        return getAssistants().update(assistantId, payload);
+    },
+    async delete(assistantId: string): Promise<void> {
+        return getAssistants().delete(assistantId);
+    },
+    async getVersions(assistantId, payload) {
+        return getAssistants().getVersions(assistantId, payload);
+    },
+    async setLatest(assistantId: string, version: number): Promise<Assistant> {
+        return getAssistants().setLatest(assistantId, version);
     },
     async getGraph(assistantId: string, options?: { xray?: boolean | number }): Promise<AssistantGraph> {
-        const config = {};
-        const graph = await getGraph(assistantId, config);
+        const assistant = await AssistantEndpoint.get(assistantId);
+        const config = assistant.config as RunnableConfig;
+        const graph = await getGraph(assistant.graph_id, config);
         const drawable = await graph.getGraphAsync({
             ...config,
             xray: options?.xray ?? undefined,
@@ -56,15 +96,252 @@ export const AssistantEndpoint: ILangGraphClient['assistants'] = {
     },
 };
 
-export const createEndpoint = () => {
-    const getThreads = () => {
-        return LangGraphGlobal.globalThreadsManager;
+/**
+ * 将 assistant 保存的 config / context 与 run 的 payload 合并，
+ * 并将 graph_id 与 thread_id 写入 run 的 configurable
+ */
+const withRunConfig = (threadId: string, assistant: Assistant, payload: StreamInputData) => {
+    const assistantConfig = (assistant.config ?? {}) as RunnableConfig;
+    payload.config = {
+        ...assistantConfig,
+        ...(payload.config ?? {}),
+        configurable: {
+            ...(assistantConfig.configurable ?? {}),
+            ...(payload.config?.configurable ?? {}),
+            graph_id: assistant.graph_id,
+            assistant_id: assistant.assistant_id,
+            thread_id: threadId,
+        },
     };
+    if (assistant.context || payload.context) {
+        payload.context = {
+            ...((assistant.context as Record<string, unknown>) ?? {}),
+            ...(payload.context ?? {}),
+        };
+    }
+    return payload;
+};
+
+/**
+ * 创建 cron，传入 threadId 时 cron 触发的 run 在该 thread 上执行，否则每次创建新的 thread
+ */
+const createCron = async (
+    threadId: string | undefined,
+    assistantId: string,
+    payload: { schedule: string; endTime?: string; metadata?: Metadata; payload?: Record<string, unknown> },
+): Promise<Cron> => {
+    const assistant = await AssistantEndpoint.get(assistantId);
+    if (threadId) {
+        await LangGraphGlobal.globalThreadsManager.get(threadId);
+    }
+    return LangGraphGlobal.globalThreadsManager.createCron({
+        assistantId: assistant.assistant_id,
+        threadId,
+        schedule: payload.schedule,
+        endTime: payload.endTime,
+        payload: payload.payload ?? {},
+        metadata: payload.metadata,
+        nextRunDate: getCronNextRunDate({ schedule: payload.schedule, end_time: payload.endTime }),
+    });
+};
+
+/**
+ * 合并 cron 的 run 参数，config.configurable 按字段合并，更新 langgraph_context 时不会丢失原有的 configurable
+ */
+const mergeCronPayload = (current: Record<string, any>, update: Record<string, any>): Record<string, unknown> => {
+    const merged = { ...current, ...update };
+    if (current.config && update.config) {
+        merged.config = {
+            ...current.config,
+            ...update.config,
+            configurable: { ...current.config.configurable, ...update.config.configurable },
+        };
+    }
+    return merged;
+};
+
+export const CronEndpoint: ILangGraphClient['crons'] = {
+    async create(assistantId, payload) {
+        return createCron(undefined, assistantId, payload);
+    },
+    async createForThread(threadId, assistantId, payload) {
+        return createCron(threadId, assistantId, payload);
+    },
+    async update(cronId, payload) {
+        const threads = LangGraphGlobal.globalThreadsManager;
+        const current = await threads.getCron(cronId);
+        const schedule = payload.schedule ?? current.schedule;
+        const endTime = payload.endTime !== undefined ? payload.endTime : current.end_time;
+        return threads.updateCron(cronId, {
+            schedule: payload.schedule,
+            endTime: payload.endTime,
+            metadata: payload.metadata ? { ...current.metadata, ...payload.metadata } : undefined,
+            payload: payload.payload ? mergeCronPayload(current.payload, payload.payload) : undefined,
+            nextRunDate:
+                payload.schedule !== undefined || payload.endTime !== undefined
+                    ? getCronNextRunDate({ schedule, end_time: endTime })
+                    : undefined,
+        });
+    },
+    async delete(cronId) {
+        return LangGraphGlobal.globalThreadsManager.deleteCron(cronId);
+    },
+    async search(query) {
+        return LangGraphGlobal.globalThreadsManager.searchCrons(query);
+    },
+    async count(query) {
+        return LangGraphGlobal.globalThreadsManager.countCrons(query);
+    },
+};
+
+const getStore = () => {
+    return LangGraphGlobal.globalStore;
+};
+
+export const StoreEndpoint: ILangGraphClient['store'] = {
+    async putItem(namespace, key, value, options) {
+        return getStore().put(namespace, key, value, options?.index);
+    },
+    async getItem(namespace, key) {
+        return getStore().get(namespace, key);
+    },
+    async deleteItem(namespace, key) {
+        return getStore().delete(namespace, key);
+    },
+    async searchItems(namespacePrefix, options) {
+        const items = await getStore().search(namespacePrefix, options);
+        return { items };
+    },
+    async listNamespaces(options) {
+        const namespaces = await getStore().listNamespaces(options ?? {});
+        return { namespaces };
+    },
+};
+
+const getThreads = () => {
+    return LangGraphGlobal.globalThreadsManager;
+};
+
+/**
+ * thread 接口，删除、复制与清理时额外处理 run 与 checkpoint，其余直接交给存储
+ */
+export const ThreadsEndpoint: ILangGraphClient['threads'] = {
+    async create(payload) {
+        const { supersteps, ...rest } = payload ?? {};
+        const threads = getThreads();
+        const thread = await threads.create(rest);
+        if (!supersteps?.length) return thread;
+        // 按顺序写入初始的 superstep
+        try {
+            const { values } = await bulkUpdateThreadState(thread, supersteps);
+            await threads.set(thread.thread_id, { values });
+        } catch (error) {
+            // 图不存在或写入失败时删除刚创建的 thread 以及已经写入的 checkpoint，不留下孤立的记录
+            await purgeThread(threads, thread.thread_id);
+            throw error;
+        }
+        return threads.get(thread.thread_id);
+    },
+    async search(query) {
+        return getThreads().search(query);
+    },
+    async count(query) {
+        return getThreads().count(query);
+    },
+    async get(threadId) {
+        return getThreads().get(threadId);
+    },
+    /**
+     * 先停止 thread 上未结束的 run（包括其他实例上的 run），避免 run 在删除之后继续写入，再删除 thread 与 checkpoint
+     */
+    async delete(threadId) {
+        const threads = getThreads();
+        await threads.get(threadId);
+        await interruptThreadRuns(threads, threadId);
+        await purgeThread(threads, threadId);
+    },
+    /**
+     * 复制 thread 及其所有 checkpoint，新的 thread 可以从原 thread 的任意历史状态继续
+     */
+    async copy(threadId) {
+        const copied = await getThreads().copy(threadId);
+        await copyCheckpoints(LangGraphGlobal.globalCheckPointer, threadId, copied.thread_id);
+        return copied;
+    },
+    async update(threadId, payload) {
+        return getThreads().update(threadId, payload);
+    },
+    async prune(query) {
+        const threads = getThreads();
+        const threadIds = await threads.prune(query);
+        for (const threadId of threadIds) {
+            // 数据库中已经没有这些 thread 的 run，只需停止本实例上还没清理完的 run
+            await interruptThreadRuns(threads, threadId);
+            await purgeThread(threads, threadId);
+        }
+        return threadIds.length;
+    },
+    async updateState(threadId, payload) {
+        return getThreads().updateState(threadId, payload);
+    },
+    async getState(threadId, checkpoint, options) {
+        return getThreads().getState(threadId, checkpoint, options);
+    },
+    async getHistory(threadId, options) {
+        return getThreads().getHistory(threadId, options);
+    },
+};
+
+/**
+ * 为无状态 run 创建临时 thread
+ */
+const createTemporaryThread = async (threads: BaseThreadsManager, graphId: string) => {
+    const thread = await threads.create({ metadata: { graph_id: graphId } });
+    return thread.thread_id;
+};
+
+/**
+ * 获取 thread 中的 run
+ * @throws HTTPError 404 run 不存在或不属于该 thread 时
+ */
+const getThreadRun = async (threads: BaseThreadsManager, threadId: string, runId: string) => {
+    const run = await threads.getRun(runId);
+    if (run.thread_id !== threadId) {
+        throw new HTTPError(404, `Run with ID ${runId} not found in thread ${threadId}.`);
+    }
+    return run;
+};
+
+/**
+ * 执行调度器领取的后台 run，run 结束后删除无状态 run 的临时 thread
+ * 同步加入本实例的队列，领取之后 run 立即可以在本实例上被取消
+ */
+export const executeBackgroundRun = (run: Run, kwargs: RunKwargs): Promise<void> => {
+    const threads = LangGraphGlobal.globalThreadsManager;
+    const ticket = LangGraphGlobal.globalRunQueue.acquire(run.thread_id, run.run_id);
+    ticket.webhook = kwargs.webhook;
+    LangGraphGlobal.globalMessageQueue.createQueue(run.run_id);
+    const { temporaryThread, ...payload } = kwargs;
+    return (async () => {
+        try {
+            for await (const _ of streamState(threads, run, payload, { attempt: 0, getGraph })) {
+                // 事件已经写入队列，可以通过 joinStream 获取
+            }
+        } finally {
+            if (temporaryThread && payload.onCompletion !== 'continue') {
+                await purgeThread(threads, run.thread_id);
+            }
+        }
+    })();
+};
+
+/** 轮询其他实例上执行的 run 状态的间隔（毫秒） */
+const JOIN_POLL_INTERVAL = 500;
+
+export const createEndpoint = () => {
     return {
         assistants: AssistantEndpoint,
-        get threads() {
-            return LangGraphGlobal.globalThreadsManager;
-        },
+        threads: ThreadsEndpoint,
         runs: {
             list(
                 threadId: string,
@@ -76,29 +353,156 @@ export const createEndpoint = () => {
             ): Promise<Run[]> {
                 return getThreads().listRuns(threadId, options);
             },
+            /**
+             * @throws HTTPError 404 run 不存在或不属于该 thread 时
+             */
+            async get(threadId: string, runId: string): Promise<Run> {
+                return getThreadRun(getThreads(), threadId, runId);
+            },
+            /**
+             * 删除已经结束的 run，pending 或 running 的 run 需要先取消
+             * @throws HTTPError 404 run 不存在或不属于该 thread 时
+             * @throws HTTPError 409 run 还没有结束时
+             */
+            async delete(threadId: string, runId: string): Promise<void> {
+                const threads = getThreads();
+                const run = await getThreadRun(threads, threadId, runId);
+                if (run.status === 'pending' || run.status === 'running') {
+                    throw new HTTPError(409, `Run with ID ${runId} is still ${run.status}, cancel it first.`);
+                }
+                await threads.deleteRun(runId);
+            },
+            /**
+             * 等待 run 结束并返回 thread 最终的 values
+             * run 在本实例上执行时等待其结束，否则轮询数据库中的状态；signal 中止时不再等待
+             * @throws HTTPError 404 run 不存在或不属于该 thread 时
+             */
+            async join(threadId: string, runId: string, options?: { signal?: AbortSignal }): Promise<unknown> {
+                const threads = getThreads();
+                let run = await getThreadRun(threads, threadId, runId);
+                const ticket = LangGraphGlobal.globalRunQueue.get(runId);
+                if (ticket) {
+                    await waitUnlessAborted(ticket.done, options?.signal);
+                } else {
+                    while ((run.status === 'pending' || run.status === 'running') && !options?.signal?.aborted) {
+                        await new Promise((resolve) => setTimeout(resolve, JOIN_POLL_INTERVAL));
+                        run = await threads.getRun(runId);
+                    }
+                }
+                const thread = await threads.get(threadId);
+                return thread.values;
+            },
+            /**
+             * 取消 pending 或 running 状态的 run，wait 为 true 时等待图循环真正停止后返回
+             * @throws HTTPError 404 run 不存在或不属于该 thread 时
+             * @throws HTTPError 409 run 已经结束，或者持有该 run 的实例无法确认取消时
+             */
             async cancel(threadId: string, runId: string, wait?: boolean, action?: CancelAction): Promise<void> {
-                return await LangGraphGlobal.globalMessageQueue.cancelQueue(runId);
+                const threads = getThreads();
+                const run = await getThreadRun(threads, threadId, runId);
+                if (run.status !== 'pending' && run.status !== 'running') {
+                    throw new HTTPError(409, `Run with ID ${runId} has already finished with status ${run.status}.`);
+                }
+                // run 在其他实例上执行时，通过取消通道通知持有它的实例，确认后才返回
+                await cancelRun(threads, runId, action, !!wait);
+            },
+            /**
+             * 创建后台 run，立即返回 pending 状态的 run，run 保存在数据库中，由调度器领取后在后台执行
+             * threadId 为 null 时创建临时 thread，run 结束后删除
+             */
+            async create(threadId: string | null, assistantId: string, payload: StreamInputData): Promise<Run> {
+                const threads = getThreads();
+                const assistant = await AssistantEndpoint.get(assistantId);
+                const stateless = !threadId;
+                threadId ??= await createTemporaryThread(threads, assistant.graph_id);
+                withRunConfig(threadId, assistant, payload);
+                const { signal, onRunCreated, ...kwargs } = payload;
+                const run = await createRunWithStrategy(threads, threadId, assistant.assistant_id, payload, {
+                    ...kwargs,
+                    temporaryThread: stateless,
+                });
+                // 先推送 metadata，排队或延迟执行的 run 也可以立刻被 joinStream 订阅
+                await LangGraphGlobal.globalMessageQueue.pushToQueue(run.run_id, createMetadataEvent(run, payload, 0));
+                LangGraphGlobal.globalRunScheduler.poke();
+                return run;
+            },
+            /**
+             * 执行 run 并等待其结束，返回最终的 values
+             * 停在中断处时，结果中包含 __interrupt__；run 被取消时返回 thread 最终的 values
+             * threadId 为 null 时创建临时 thread，run 结束后删除
+             * @throws HTTPError 504 run 超过最大执行时间时
+             * @throws HTTPError 500 run 出错时
+             */
+            async wait(threadId: string | null, assistantId: string, payload: StreamInputData): Promise<unknown> {
+                const threads = getThreads();
+                const assistant = await AssistantEndpoint.get(assistantId);
+                const stateless = !threadId;
+                threadId ??= await createTemporaryThread(threads, assistant.graph_id);
+                withRunConfig(threadId, assistant, payload);
+                let values: any = null;
+                try {
+                    const run = await createRunWithStrategy(threads, threadId, assistant.assistant_id, payload);
+                    let streamError: { error: string; message: string } | undefined;
+                    for await (const { event, data } of streamState(threads, run, payload, { attempt: 0, getGraph })) {
+                        if (event === 'values') {
+                            values = (data as any)?.__interrupt__
+                                ? { ...values, __interrupt__: (data as any).__interrupt__ }
+                                : data;
+                        } else if (event === '__stream_error__') {
+                            streamError = data as { error: string; message: string };
+                        }
+                    }
+                    // 流结束时 run 已经记录了最终状态，以 rollback 取消的 run 已被删除
+                    const finished = await threads.getRun(run.run_id).catch(() => null);
+                    if (finished?.status === 'timeout') {
+                        throw new HTTPError(
+                            504,
+                            streamError ? `${streamError.error}: ${streamError.message}` : 'Run timed out.',
+                        );
+                    }
+                    if (finished?.status === 'error') {
+                        throw new HTTPError(
+                            500,
+                            streamError ? `${streamError.error}: ${streamError.message}` : 'Run failed.',
+                        );
+                    }
+                    if (!finished || (finished.status === 'interrupted' && !values?.__interrupt__)) {
+                        values = (await threads.get(threadId)).values ?? null;
+                    }
+                } finally {
+                    if (stateless && payload.onCompletion !== 'continue') {
+                        await purgeThread(threads, threadId);
+                    }
+                }
+                return JSON.parse(serialiseAsDict(values));
             },
+            /**
+             * 创建 run 并返回其事件流
+             * onDisconnect 为 cancel 时，payload.signal 中止（客户端断开连接）后取消 run；为 continue 时 run 继续执行，可以通过 joinStream 重新订阅
+             */
             async *stream(threadId: string, assistantId: string, payload: StreamInputData) {
-                payload.config = {
-                    ...(payload.config ?? {}),
-                    configurable: {
-                        ...(payload.config?.configurable ?? {}),
-                        graph_id: assistantId,
-                        thread_id: threadId,
-                    },
-                };
+                const assistant = await AssistantEndpoint.get(assistantId);
+                withRunConfig(threadId, assistant, payload);
                 const threads = getThreads();
-                for await (const data of streamState(
-                    threads,
-                    threads.createRun(threadId, assistantId, payload),
-                    payload,
-                    {
+                const run = await createRunWithStrategy(threads, threadId, assistant.assistant_id, payload);
+                const cancelOnDisconnect = () => {
+                    interruptRun(run.run_id).catch((error) => {
+                        console.error(`Cancel run ${run.run_id} on disconnect error:`, error);
+                    });
+                };
+                if (payload.onDisconnect === 'cancel' && payload.signal) {
+                    if (payload.signal.aborted) cancelOnDisconnect();
+                    payload.signal.addEventListener('abort', cancelOnDisconnect, { once: true });
+                }
+                try {
+                    for await (const data of streamState(threads, run, payload, {
                         attempt: 0,
                         getGraph,
-                    },
-                )) {
-                    yield data;
+                    })) {
+                        yield data;
+                    }
+                } finally {
+                    payload.signal?.removeEventListener('abort', cancelOnDisconnect);
                 }
             },
             async *joinStream(
@@ -114,53 +518,72 @@ export const createEndpoint = () => {
                     | AbortSignal,
             ): AsyncGenerator<{ id?: string; event: StreamEvent; data: any }> {
                 // 处理参数兼容性
-                const config = options && typeof options === 'object' && 'signal' in options ? options : {};
+                const config = options && !(options instanceof AbortSignal) ? options : {};
                 const signal =
                     (options instanceof AbortSignal ? options : config.signal) || new AbortController().signal;
+                const isStreamEnd = (eventMessage: EventMessage) =>
+                    eventMessage.event === '__stream_end__' ||
+                    eventMessage.event === '__stream_error__' ||
+                    eventMessage.event === '__stream_cancel__';
 
                 try {
                     // 获取 Redis 队列实例
                     const queue = await LangGraphGlobal.globalMessageQueue.getQueue(runId);
+                    // 只返回 lastEventId 之后的事件，断线重连时不会重复
+                    let lastEventId = config.lastEventId ?? '0';
                     const allData = await queue.getAll();
                     for (const eventMessage of allData) {
-                        yield {
-                            id: eventMessage.id,
-                            event: eventMessage.event as unknown as StreamEvent,
-                            data: eventMessage.data,
-                        };
+                        if (isEventAfter(eventMessage, lastEventId)) {
+                            yield {
+                                id: eventMessage.id,
+                                event: eventMessage.event as unknown as StreamEvent,
+                                data: eventMessage.data,
+                            };
+                            lastEventId = eventMessage.id ?? lastEventId;
+                        }
                         // 如果是流结束信号，停止监听
-                        if (
-                            eventMessage.event === '__stream_end__' ||
-                            eventMessage.event === '__stream_error__' ||
-                            eventMessage.event === '__stream_cancel__'
-                        ) {
+                        if (isStreamEnd(eventMessage)) {
                             return;
                         }
                     }
                     // 监听队列数据并转换格式
+                    let ended = false;
                     for await (const eventMessage of queue.onDataReceive()) {
                         // 检查是否被取消
                         if (signal.aborted) {
                             break;
                         }
 
-                        // 转换 EventMessage 为期望的格式
-                        const event = eventMessage.event as unknown as StreamEvent;
-                        const data = eventMessage.data;
-
-                        yield {
-                            id: eventMessage.id,
-                            event,
-                            data,
-                        };
+                        // 读取历史与开始监听之间推送的事件监听不到，id 不连续时从队列中补齐
+                        const items =
+                            Number(eventMessage.id) > Number(lastEventId) + 1 ? await queue.getAll() : [eventMessage];
 
-                        // 如果是流结束信号，停止监听
-                        if (
-                            eventMessage.event === '__stream_end__' ||
-                            eventMessage.event === '__stream_error__' ||
-                            eventMessage.event === '__stream_cancel__'
-                        ) {
-                            break;
+                        for (const item of items) {
+                            if (!isEventAfter(item, lastEventId)) continue;
+                            yield {
+                                id: item.id,
+                                event: item.event as unknown as StreamEvent,
+                                data: item.data,
+                            };
+                            lastEventId = item.id ?? lastEventId;
+                            // 如果是流结束信号，停止监听
+                            if (isStreamEnd(item)) {
+                                ended = true;
+                                break;
+                            }
+                        }
+                        if (ended) break;
+                    }
+                    // 队列被中止（取消或超时）时停止监听，补齐中止前推送的事件
+                    if (!ended && !signal.aborted) {
+                        for (const item of await queue.getAll()) {
+                            if (!isEventAfter(item, lastEventId)) continue;
+                            yield {
+                                id: item.id,
+                                event: item.event as unknown as StreamEvent,
+                                data: item.data,
+                            };
+                            lastEventId = item.id ?? lastEventId;
                         }
                     }
                 } catch (error) {
@@ -169,5 +592,7 @@ export const createEndpoint = () => {
                 }
             },
         },
+        crons: CronEndpoint,
+        store: StoreEndpoint,
     };
 };
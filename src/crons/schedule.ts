@@ -0,0 +1,159 @@
+import { HTTPError } from '../utils/errors.js';
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    aliases?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    {
+        name: 'month',
+        min: 1,
+        max: 12,
+        aliases: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+    },
+    { name: 'day of week', min: 0, max: 7, aliases: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const CRON_MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+/** 向后查找下一次执行时间的最大范围，超出则认为 schedule 永远不会触发 */
+const MAX_LOOKAHEAD = 5 * 366 * 24 * 60 * 60 * 1000;
+
+interface ParsedSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** day of month 与 day of week 都有限制时，满足其一即可 */
+    restrictDayOfMonth: boolean;
+    restrictDayOfWeek: boolean;
+}
+
+const parseValue = (value: string, field: CronField, schedule: string) => {
+    const aliasIndex = field.aliases?.indexOf(value.toLowerCase()) ?? -1;
+    const parsed = aliasIndex !== -1 ? aliasIndex + field.min : Number(value);
+    if (!Number.isInteger(parsed) || parsed < field.min || parsed > field.max) {
+        throw new HTTPError(400, `Invalid cron schedule "${schedule}": bad ${field.name} value "${value}".`);
+    }
+    return parsed;
+};
+
+const parseField = (expression: string, field: CronField, schedule: string) => {
+    const values = new Set<number>();
+    for (const part of expression.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new HTTPError(400, `Invalid cron schedule "${schedule}": bad ${field.name} step "${stepText}".`);
+        }
+
+        let start = field.min;
+        let end = field.max;
+        if (range !== '*') {
+            const [from, to] = range.split('-');
+            start = parseValue(from, field, schedule);
+            // 形如 5/15 的写法表示从 5 开始到最大值
+            end = to !== undefined ? parseValue(to, field, schedule) : stepText !== undefined ? field.max : start;
+        }
+        if (start > end) {
+            throw new HTTPError(400, `Invalid cron schedule "${schedule}": bad ${field.name} range "${range}".`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+};
+
+/**
+ * 解析标准的 5 段 cron 表达式（分 时 日 月 周），同时支持 @daily 等宏
+ * @throws HTTPError 400 表达式不合法时
+ */
+export const parseCronSchedule = (schedule: string): ParsedSchedule => {
+    const expression = CRON_MACROS[schedule.trim().toLowerCase()] ?? schedule;
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== CRON_FIELDS.length) {
+        throw new HTTPError(400, `Invalid cron schedule "${schedule}": expected 5 fields.`);
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+        parseField(part, CRON_FIELDS[index], schedule),
+    );
+    // 周日可以写作 0 或 7
+    if (daysOfWeek.has(7)) daysOfWeek.add(0);
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        restrictDayOfMonth: parts[2] !== '*',
+        restrictDayOfWeek: parts[4] !== '*',
+    };
+};
+
+const matchDay = (schedule: ParsedSchedule, date: Date) => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+    if (schedule.restrictDayOfMonth && schedule.restrictDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * 计算 schedule 在 after 之后（不含）的下一次执行时间，按 UTC 计算
+ * @throws HTTPError 400 表达式不合法或永远不会触发时
+ */
+export const getNextRunDate = (schedule: string, after: Date): Date => {
+    const parsed = parseCronSchedule(schedule);
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_LOOKAHEAD;
+    while (date.getTime() <= limit) {
+        if (!parsed.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0, 0, 0);
+        } else if (!matchDay(parsed, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0, 0, 0);
+        } else if (!parsed.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        } else if (!parsed.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        } else {
+            return date;
+        }
+    }
+    throw new HTTPError(400, `Invalid cron schedule "${schedule}": it never runs.`);
+};
+
+/**
+ * 计算 cron 的下一次执行时间，超过 end_time 时返回 null，表示不再执行
+ */
+export const getCronNextRunDate = (
+    cron: { schedule: string; end_time?: string | null },
+    after: Date = new Date(),
+): string | null => {
+    const next = getNextRunDate(cron.schedule, after);
+    if (cron.end_time && next.getTime() > new Date(cron.end_time).getTime()) {
+        return null;
+    }
+    return next.toISOString();
+};
@@ -0,0 +1,92 @@
+import type { Cron } from '@langgraph-js/sdk';
+import camelcaseKeys from 'camelcase-keys';
+import { LangGraphGlobal } from '../global.js';
+import type { StreamInputData } from '../types.js';
+import { getCronNextRunDate } from './schedule.js';
+
+/**
+ * cron 调度器，定时检查到期的 cron 并创建后台 run
+ * Cron scheduler, periodically creates background runs for due crons
+ *
+ * 多个实例共享数据库时，通过 claimCron 条件更新 next_run_date，每次触发只会有一个实例执行
+ * When several instances share a database, claimCron makes sure each tick runs on one instance only
+ */
+export class CronScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    /**
+     * 构造函数
+     * Constructor
+     * @param interval 检查间隔（毫秒）/ Polling interval in milliseconds
+     */
+    constructor(
+        readonly interval: number = process.env.CRON_POLL_INTERVAL ? parseInt(process.env.CRON_POLL_INTERVAL) : 10000,
+    ) {}
+
+    /**
+     * 开始定时检查，重复调用不会创建多个定时器
+     * Start polling, calling it again does not create another timer
+     */
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.tick().catch((error) => {
+                console.error('Cron scheduler error:', error);
+            });
+        }, this.interval);
+        // 不阻止进程退出 / Do not keep the process alive
+        this.timer.unref?.();
+    }
+
+    /**
+     * 停止定时检查
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * 执行一次检查，为所有到期的 cron 创建 run
+     * Run one check, creating runs for every due cron
+     * @param now 当前时间 / Current time
+     */
+    async tick(now: Date = new Date()): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+        try {
+            const threads = LangGraphGlobal.globalThreadsManager;
+            for (const cron of await threads.listDueCrons(now.toISOString())) {
+                const claimed = await threads.claimCron(
+                    cron.cron_id,
+                    cron.next_run_date!,
+                    getCronNextRunDate(cron, now),
+                );
+                if (!claimed) continue;
+                await this.startRun(cron).catch((error) => {
+                    console.error(`Cron ${cron.cron_id} run error:`, error);
+                });
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * 通过与 /runs 相同的路径创建后台 run，没有绑定 thread 时每次都会创建新的 thread
+     * Create a background run through the same path as /runs, a new thread is created when none is bound
+     */
+    private async startRun(cron: Cron): Promise<void> {
+        const { createEndpoint } = await import('../createEndpoint.js');
+        const payload = camelcaseKeys(cron.payload) as StreamInputData;
+        await createEndpoint().runs.create(cron.thread_id ?? null, cron.assistant_id, {
+            ...payload,
+            // cron 的 metadata 作为 run 的 metadata，更新 cron 后触发的 run 使用新的 metadata
+            metadata: { ...payload.metadata, ...cron.metadata, cron_id: cron.cron_id },
+        });
+    }
+}
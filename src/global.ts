@@ -1,14 +1,35 @@
-import { BaseCheckpointSaver } from '@langchain/langgraph-checkpoint';
+import { BaseCheckpointSaver, BaseStore } from '@langchain/langgraph-checkpoint';
 import { BaseStreamQueueInterface, StreamQueueManager } from './queue/stream_queue.js';
-import { createCheckPointer, createMessageQueue, createThreadManager } from './storage/index.js';
+import type { CancelChannel } from './queue/cancel_channel.js';
+import {
+    createAssistantsManager,
+    createCancelChannel,
+    createCheckPointer,
+    createMessageQueue,
+    createStore,
+    createThreadManager,
+} from './storage/index.js';
 import type { SqliteSaver } from './storage/sqlite/checkpoint.js';
 import type { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres';
 import { BaseThreadsManager } from './threads/index.js';
+import { BaseAssistantsManager } from './assistants/index.js';
+import { ThreadRunQueue } from './queue/run_queue.js';
+import { RunScheduler } from './queue/run_scheduler.js';
+import { CronScheduler } from './crons/scheduler.js';
+import { WebhookDispatcher } from './webhooks/dispatcher.js';
 
 export class LangGraphGlobal {
     static globalMessageQueue: StreamQueueManager<BaseStreamQueueInterface> = null as any;
     static globalCheckPointer: BaseCheckpointSaver = null as any;
     static globalThreadsManager: BaseThreadsManager = null as any;
+    static globalAssistantsManager: BaseAssistantsManager = null as any;
+    static globalStore: BaseStore = null as any;
+    /** 跨实例取消 run 的通道，没有配置 Redis 时为 null */
+    static globalCancelChannel: CancelChannel | null = null;
+    static globalRunQueue: ThreadRunQueue = new ThreadRunQueue();
+    static globalRunScheduler: RunScheduler = new RunScheduler();
+    static globalCronScheduler: CronScheduler = new CronScheduler();
+    static globalWebhookDispatcher: WebhookDispatcher = new WebhookDispatcher();
     static isInitialized: Promise<void> | null = null;
     static async initGlobal() {
         if (LangGraphGlobal.isInitialized) {
@@ -24,10 +45,29 @@ export class LangGraphGlobal {
                 checkpointer: globalCheckPointer as SqliteSaver | PostgresSaver,
             });
             console.debug('LG | threads manager created');
+            const globalAssistantsManager = await createAssistantsManager({
+                checkpointer: globalCheckPointer as SqliteSaver | PostgresSaver,
+            });
+            console.debug('LG | assistants manager created');
+            const globalStore = await createStore({
+                checkpointer: globalCheckPointer as SqliteSaver | PostgresSaver,
+            });
+            console.debug('LG | store created');
+            const globalCancelChannel = await createCancelChannel();
+            if (globalCancelChannel) {
+                const { handleCancelRequest } = await import('./graph/multitask.js');
+                await globalCancelChannel.subscribe(handleCancelRequest);
+                console.debug('LG | cancel channel subscribed');
+            }
             console.debug('LG | global init done');
             LangGraphGlobal.globalMessageQueue = globalMessageQueue;
             LangGraphGlobal.globalCheckPointer = globalCheckPointer;
             LangGraphGlobal.globalThreadsManager = globalThreadsManager;
+            LangGraphGlobal.globalAssistantsManager = globalAssistantsManager;
+            LangGraphGlobal.globalStore = globalStore;
+            LangGraphGlobal.globalCancelChannel = globalCancelChannel;
+            LangGraphGlobal.globalRunScheduler.start();
+            LangGraphGlobal.globalCronScheduler.start();
         })();
         return LangGraphGlobal.isInitialized;
     }
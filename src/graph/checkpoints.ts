@@ -0,0 +1,92 @@
+import type {
+    BaseCheckpointSaver,
+    CheckpointMetadata,
+    CheckpointTuple,
+    PendingWrite,
+} from '@langchain/langgraph-checkpoint';
+
+/**
+ * 将 checkpoint 按顺序写入指定的 thread，包括每个 checkpoint 的 pending writes
+ */
+async function putCheckpoints(checkpointer: BaseCheckpointSaver, threadId: string, tuples: CheckpointTuple[]) {
+    // checkpoint id 按时间有序，从旧到新写回以保证父节点先存在
+    const sorted = [...tuples].sort((a, b) => a.checkpoint.id.localeCompare(b.checkpoint.id));
+    for (const tuple of sorted) {
+        const metadata = tuple.metadata!;
+        const config = await checkpointer.put(
+            {
+                configurable: {
+                    thread_id: threadId,
+                    checkpoint_ns: tuple.config.configurable?.checkpoint_ns ?? '',
+                    checkpoint_id: tuple.parentConfig?.configurable?.checkpoint_id,
+                },
+            },
+            tuple.checkpoint,
+            // metadata 中可能记录了原 thread 的 id
+            'thread_id' in metadata ? ({ ...metadata, thread_id: threadId } as CheckpointMetadata) : metadata,
+            tuple.checkpoint.channel_versions,
+        );
+        const writesByTask = new Map<string, PendingWrite[]>();
+        for (const [taskId, channel, value] of tuple.pendingWrites ?? []) {
+            writesByTask.set(taskId, [...(writesByTask.get(taskId) ?? []), [channel, value]]);
+        }
+        for (const [taskId, writes] of writesByTask) {
+            await checkpointer.putWrites(config, writes, taskId);
+        }
+    }
+}
+
+/**
+ * 可以直接删除某个 checkpoint 之后写入的 checkpoint 的 checkpointer，见 SqliteSaver 与 MemorySaver
+ */
+interface CheckpointTruncator {
+    deleteCheckpointsAfter(threadId: string, checkpointId: string | null): Promise<void>;
+}
+
+const canTruncate = (checkpointer: BaseCheckpointSaver): checkpointer is BaseCheckpointSaver & CheckpointTruncator =>
+    typeof (checkpointer as Partial<CheckpointTruncator>).deleteCheckpointsAfter === 'function';
+
+/**
+ * 删除 thread 中 checkpointId 之后写入的 checkpoint，checkpoint ID 按写入时间有序；
+ * checkpointId 为 null 时删除 thread 的所有 checkpoint
+ *
+ * 其他 checkpointer 只提供 deleteThread，所以先读出需要保留的 checkpoint，清空 thread 后再按顺序写回
+ */
+export async function deleteCheckpointsAfter(
+    checkpointer: BaseCheckpointSaver,
+    threadId: string,
+    checkpointId: string | null,
+): Promise<void> {
+    if (canTruncate(checkpointer)) {
+        await checkpointer.deleteCheckpointsAfter(threadId, checkpointId);
+        return;
+    }
+    const kept: CheckpointTuple[] = [];
+    let removed = 0;
+    for await (const tuple of checkpointer.list({ configurable: { thread_id: threadId } })) {
+        if (checkpointId === null || tuple.checkpoint.id > checkpointId) {
+            removed++;
+        } else {
+            kept.push(tuple);
+        }
+    }
+    if (removed === 0) return;
+
+    await checkpointer.deleteThread(threadId);
+    await putCheckpoints(checkpointer, threadId, kept);
+}
+
+/**
+ * 将一个 thread 的所有 checkpoint 复制到另一个 thread
+ */
+export async function copyCheckpoints(
+    checkpointer: BaseCheckpointSaver,
+    fromThreadId: string,
+    toThreadId: string,
+): Promise<void> {
+    const tuples: CheckpointTuple[] = [];
+    for await (const tuple of checkpointer.list({ configurable: { thread_id: fromThreadId } })) {
+        tuples.push(tuple);
+    }
+    await putCheckpoints(checkpointer, toThreadId, tuples);
+}
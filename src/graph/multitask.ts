@@ -0,0 +1,188 @@
+import { Run } from '@langgraph-js/sdk';
+import { LangGraphGlobal } from '../global.js';
+import type { CancelRequestHandler } from '../queue/cancel_channel.js';
+import { BaseThreadsManager, isRunBefore } from '../threads/index.js';
+import { CancelAction, RunKwargs, StreamInputData } from '../types.js';
+import { HTTPError } from '../utils/errors.js';
+import { discardUnstartedRun } from './stream.js';
+
+/**
+ * 中断正在执行或排队中的 run，并等待图循环真正停止
+ * action 为 rollback 时，run 停止后删除该 run 写入的 checkpoint、重置 thread 的 values 并删除 run，thread 如同没有执行过该 run；
+ * 回滚在 streamState 释放 run 之前完成，等待该 run 的调用方与之后的 run 看到的都是回滚后的状态
+ */
+export async function interruptRun(runId: string, action: CancelAction = 'interrupt'): Promise<void> {
+    const ticket = LangGraphGlobal.globalRunQueue.get(runId);
+    if (ticket && action === 'rollback') ticket.rollback = true;
+    await LangGraphGlobal.globalMessageQueue.cancelQueue(runId);
+    if (!ticket) return;
+    await ticket.done;
+}
+
+/**
+ * 取消 run，run 不在本实例上时通过取消通道交给持有它的实例，并等待其确认
+ * wait 为 false 时不等待图循环真正停止
+ * @throws HTTPError 409 run 不在本实例上，且没有实例确认持有该 run 时
+ */
+export async function cancelRun(
+    threads: BaseThreadsManager,
+    runId: string,
+    action: CancelAction = 'interrupt',
+    wait = true,
+): Promise<void> {
+    // 还没有被调度器领取的后台 run，由取消方领取后直接丢弃，不再执行
+    const kwargs = await threads.claimRun(runId);
+    if (kwargs) {
+        await discardQueuedRun(threads, runId, kwargs, action);
+        return;
+    }
+    if (!LangGraphGlobal.globalRunQueue.get(runId)) {
+        const channel = LangGraphGlobal.globalCancelChannel;
+        const confirmed = channel ? await channel.request({ runId, action, wait }) : false;
+        if (!confirmed) {
+            throw new HTTPError(409, `Run with ID ${runId} is not running on any instance.`);
+        }
+        return;
+    }
+    const task = interruptRun(runId, action);
+    if (wait) {
+        await task;
+    } else {
+        task.catch((error) => {
+            console.error(`Cancel run ${runId} error:`, error);
+        });
+    }
+}
+
+/**
+ * 丢弃已经领取但还没开始执行的后台 run，结束正在等待它的 joinStream，并删除无状态 run 的临时 thread
+ */
+async function discardQueuedRun(threads: BaseThreadsManager, runId: string, kwargs: RunKwargs, action: CancelAction) {
+    const run = await threads.getRun(runId);
+    LangGraphGlobal.globalMessageQueue.createQueue(runId);
+    await LangGraphGlobal.globalMessageQueue.cancelQueue(runId);
+    await discardUnstartedRun(threads, runId, { delayed: !!kwargs.afterSeconds, webhook: kwargs.webhook });
+    if (kwargs.temporaryThread && kwargs.onCompletion !== 'continue') {
+        await purgeThread(threads, run.thread_id);
+    } else if (action === 'rollback' && !kwargs.afterSeconds) {
+        await threads.deleteRun(runId);
+    }
+}
+
+/**
+ * 数据库中 thread 上 pending 或 running 的 run，包括在其他实例上执行的 run
+ */
+const listActiveRuns = async (threads: BaseThreadsManager, threadId: string): Promise<Run[]> => {
+    const [pending, running] = await Promise.all([
+        threads.listRuns(threadId, { status: 'pending' }),
+        threads.listRuns(threadId, { status: 'running' }),
+    ]);
+    return [...pending, ...running];
+};
+
+/**
+ * 中断 thread 上所有未结束的 run，并等待它们停止
+ * 从排在最后的 run 开始取消，排队中的 run 不会在前面的 run 停止后开始执行；
+ * 在其他实例上执行的 run 通过取消通道中断
+ * @throws HTTPError 409 有 run 的持有实例无法确认取消时
+ */
+export async function interruptThreadRuns(
+    threads: BaseThreadsManager,
+    threadId: string,
+    action: CancelAction = 'interrupt',
+): Promise<void> {
+    const runs = (await listActiveRuns(threads, threadId)).sort((a, b) => (isRunBefore(a, b) ? 1 : -1));
+    for (const run of runs) {
+        await cancelRun(threads, run.run_id, action);
+    }
+    // 数据库中已经结束、但在本实例上还没有清理完的 run
+    for (const ticket of LangGraphGlobal.globalRunQueue.getThreadRuns(threadId).reverse()) {
+        await interruptRun(ticket.runId, action);
+    }
+}
+
+/**
+ * 删除 thread 的数据、checkpoint 以及中断时拷贝的队列，不会停止 thread 上的 run
+ * 可以重复调用：thread 已经被删除时（例如中断 run 时无状态 run 删除了自己的临时 thread）只清理剩余的部分
+ */
+export async function purgeThread(threads: BaseThreadsManager, threadId: string): Promise<void> {
+    try {
+        await threads.delete(threadId);
+    } catch (error) {
+        const exists = await threads.get(threadId).then(
+            () => true,
+            () => false,
+        );
+        if (exists) throw error;
+    }
+    await LangGraphGlobal.globalCheckPointer.deleteThread(threadId);
+    await LangGraphGlobal.globalMessageQueue.deleteQueue(threadId);
+}
+
+/**
+ * 处理其他实例通过取消通道发来的请求，只有持有该 run 的实例会执行取消
+ */
+export const handleCancelRequest: CancelRequestHandler = ({ runId, action }) => {
+    if (!LangGraphGlobal.globalRunQueue.get(runId)) return null;
+    return interruptRun(runId, action);
+};
+
+/**
+ * 根据 multitask_strategy 处理 thread 上正在进行的 run，然后创建新的 run
+ * - reject: thread 忙碌时返回 409
+ * - interrupt: 取消正在进行的 run，保留其进度；run 在其他实例上且无法确认取消时返回 409
+ * - rollback: 取消正在进行的 run，并删除其写入的 checkpoint
+ * - enqueue: 新的 run 在队列中等待之前的 run 结束
+ *
+ * 传入 kwargs 时 run 连同 kwargs 保存在数据库中，由调度器领取并执行；
+ * 否则 run 加入本实例的队列，调用方需要通过 streamState 执行它
+ * 传入 afterSeconds 时，run 保持 pending 直到 created_at 记录的计划时间
+ */
+export async function createRunWithStrategy(
+    threads: BaseThreadsManager,
+    threadId: string,
+    assistantId: string,
+    payload: StreamInputData,
+    kwargs?: RunKwargs,
+): Promise<Run> {
+    // 从检查 thread 状态到加入队列期间独占该 thread，并发请求不会同时通过 reject 检查
+    return LangGraphGlobal.globalRunQueue.exclusive(threadId, async () => {
+        const strategy = payload.multitaskStrategy ?? 'reject';
+        const thread = await threads.get(threadId);
+        const inflight = LangGraphGlobal.globalRunQueue.getThreadRuns(threadId);
+        const busy =
+            thread.status === 'busy' || inflight.length > 0 || (await listActiveRuns(threads, threadId)).length > 0;
+
+        if (busy) {
+            if (strategy === 'reject') {
+                throw new HTTPError(409, `Thread with ID ${threadId} is busy, can't create a new run.`);
+            }
+            if (strategy === 'interrupt' || strategy === 'rollback') {
+                await interruptThreadRuns(threads, threadId, strategy);
+            }
+        }
+
+        // thread 还没有关联图时记录 graph_id，之后才能从 checkpointer 读取它的状态
+        const graphId = payload.config?.configurable?.graph_id;
+        if (graphId && !thread.metadata?.graph_id) {
+            await threads.set(threadId, { metadata: { ...thread.metadata, graph_id: graphId } });
+        }
+
+        const run = await threads.createRun(threadId, assistantId, {
+            metadata: payload.metadata,
+            multitaskStrategy: strategy,
+            afterSeconds: payload.afterSeconds,
+            kwargs,
+        });
+        // 同时创建队列，streamState 开始之前该 run 也可以被取消
+        LangGraphGlobal.globalMessageQueue.createQueue(run.run_id);
+        // 后台 run 由调度器领取后才加入执行它的实例
+        if (kwargs) return run;
+        const ticket = LangGraphGlobal.globalRunQueue.acquire(threadId, run.run_id);
+        if (payload.afterSeconds) {
+            ticket.scheduledAt = run.created_at;
+        }
+        ticket.webhook = payload.webhook;
+        return run;
+    });
+}
@@ -0,0 +1,201 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { StateSnapshot } from '@langchain/langgraph';
+import { Checkpoint, Command, Config, Metadata, Thread, ThreadState } from '@langgraph-js/sdk';
+import { getGraph } from '../utils/getGraph.js';
+import { getLangGraphCommand } from '../utils/getLangGraphCommand.js';
+import { HTTPError } from '../utils/errors.js';
+import { serialiseAsDict } from './stream.js';
+
+export type CheckpointPayload = Partial<Omit<Checkpoint, 'thread_id'>>;
+
+export type ThreadStateUpdatePayload = {
+    values?: unknown;
+    /** 以该节点的身份写入更新 */
+    asNode?: string;
+    /** 在指定的 checkpoint 上更新，会形成新的分支 */
+    checkpointId?: string;
+    checkpoint?: CheckpointPayload;
+    /** 以 Command 的形式更新，例如恢复中断 */
+    command?: Command;
+    /** 按顺序应用多个 superstep，不能与 values 或 command 同时使用 */
+    supersteps?: ThreadSuperstep[];
+};
+
+export type ThreadSuperstep = {
+    /** 只有一个更新时可以省略 asNode，由 LangGraph 推断 */
+    updates: Array<{ values?: unknown; command?: Command; asNode?: string }>;
+};
+
+const runnableConfigToCheckpoint = (config: RunnableConfig | undefined): Checkpoint | null => {
+    const configurable = config?.configurable;
+    if (!configurable?.thread_id || !configurable?.checkpoint_id) return null;
+    return {
+        thread_id: configurable.thread_id,
+        checkpoint_ns: configurable.checkpoint_ns ?? '',
+        checkpoint_id: configurable.checkpoint_id,
+        checkpoint_map: configurable.checkpoint_map ?? null,
+    };
+};
+
+const isStateSnapshot = (state: unknown): state is StateSnapshot => {
+    return state != null && typeof state === 'object' && 'values' in state && 'next' in state;
+};
+
+/**
+ * 将 LangGraph 的 StateSnapshot 转换为 SDK 的 ThreadState
+ */
+const stateSnapshotToThreadState = (state: StateSnapshot): ThreadState => {
+    return {
+        values: state.values,
+        next: [...state.next],
+        checkpoint: runnableConfigToCheckpoint(state.config)!,
+        metadata: (state.metadata ?? {}) as Metadata,
+        created_at: state.createdAt ?? null,
+        parent_checkpoint: runnableConfigToCheckpoint(state.parentConfig),
+        tasks: state.tasks.map((task) => ({
+            id: task.id,
+            name: task.name,
+            result: task.result ?? null,
+            error: task.error ? String(task.error) : null,
+            interrupts: task.interrupts as ThreadState['tasks'][number]['interrupts'],
+            checkpoint: isStateSnapshot(task.state)
+                ? null
+                : runnableConfigToCheckpoint(task.state as RunnableConfig | undefined),
+            state: isStateSnapshot(task.state) ? stateSnapshotToThreadState(task.state) : null,
+        })),
+    };
+};
+
+/**
+ * thread 还没有关联图时返回的空状态
+ */
+const emptyThreadState = (threadId: string): ThreadState => ({
+    values: {},
+    next: [],
+    checkpoint: { thread_id: threadId, checkpoint_ns: '', checkpoint_id: null, checkpoint_map: null },
+    metadata: {},
+    created_at: null,
+    parent_checkpoint: null,
+    tasks: [],
+});
+
+const getThreadConfig = (threadId: string, graphId: string, checkpoint?: CheckpointPayload) => ({
+    configurable: {
+        ...(checkpoint ?? {}),
+        thread_id: threadId,
+        graph_id: graphId,
+    },
+});
+
+const getThreadGraphId = (thread: Thread<unknown>) => {
+    const graphId = thread.metadata?.graph_id as string | undefined;
+    if (!graphId) {
+        throw new HTTPError(400, `Thread with ID ${thread.thread_id} has no graph_id.`);
+    }
+    return graphId;
+};
+
+/**
+ * 更新 thread 的状态，返回新 checkpoint 的 config 以及更新后的最新 values
+ */
+export async function updateThreadState<ValuesType>(
+    thread: Thread<ValuesType>,
+    payload: ThreadStateUpdatePayload,
+): Promise<{ config: Pick<Config, 'configurable'>; values: ValuesType }> {
+    const graphId = getThreadGraphId(thread);
+    const checkpoint = payload.checkpointId
+        ? { ...payload.checkpoint, checkpoint_id: payload.checkpointId }
+        : payload.checkpoint;
+    if (payload.supersteps?.length || payload.command != null) {
+        if (payload.values != null || (payload.supersteps?.length && payload.command != null)) {
+            throw new HTTPError(400, 'Only one of values, command and supersteps can be provided.');
+        }
+        const supersteps = payload.supersteps?.length
+            ? payload.supersteps
+            : [{ updates: [{ command: payload.command, asNode: payload.asNode }] }];
+        return bulkUpdateThreadState(thread, supersteps, checkpoint);
+    }
+    const config = getThreadConfig(thread.thread_id, graphId, checkpoint);
+    const graph = await getGraph(graphId, config);
+    const nextConfig = await graph.updateState(config, payload.values, payload.asNode);
+    const state = await graph.getState(getThreadConfig(thread.thread_id, graphId));
+    return { config: nextConfig, values: JSON.parse(serialiseAsDict(state.values)) };
+}
+
+/**
+ * 按顺序应用多个 superstep，每个 superstep 中的更新会在同一步中写入，
+ * 传入 checkpoint 时从该 checkpoint 开始更新
+ */
+export async function bulkUpdateThreadState<ValuesType>(
+    thread: Thread<ValuesType>,
+    supersteps: ThreadSuperstep[],
+    checkpoint?: CheckpointPayload,
+): Promise<{ config: Pick<Config, 'configurable'>; values: ValuesType }> {
+    const graphId = getThreadGraphId(thread);
+    const config = getThreadConfig(thread.thread_id, graphId);
+    const graph = await getGraph(graphId, config);
+    const nextConfig = await graph.bulkUpdateState(
+        checkpoint ? getThreadConfig(thread.thread_id, graphId, checkpoint) : config,
+        supersteps.map((superstep) => ({
+            updates: superstep.updates.map((update) => ({
+                values: update.command != null ? getLangGraphCommand(update.command) : update.values,
+                asNode: update.asNode,
+            })),
+        })),
+    );
+    const state = await graph.getState(config);
+    return { config: nextConfig, values: JSON.parse(serialiseAsDict(state.values)) };
+}
+
+/**
+ * 从 checkpointer 中读取 thread 的状态，不传 checkpoint 时返回最新状态
+ */
+export async function getThreadState<ValuesType>(
+    thread: Thread<ValuesType>,
+    checkpoint?: CheckpointPayload | string,
+    options?: { subgraphs?: boolean },
+): Promise<ThreadState<ValuesType>> {
+    const graphId = thread.metadata?.graph_id as string | undefined;
+    if (!graphId) return emptyThreadState(thread.thread_id) as ThreadState<ValuesType>;
+
+    const config = getThreadConfig(
+        thread.thread_id,
+        graphId,
+        typeof checkpoint === 'string' ? { checkpoint_id: checkpoint } : checkpoint,
+    );
+    const graph = await getGraph(graphId, config);
+    const state = await graph.getState(config, { subgraphs: options?.subgraphs });
+    return JSON.parse(serialiseAsDict(stateSnapshotToThreadState(state)));
+}
+
+/**
+ * 从 checkpointer 中读取 thread 的历史状态，按时间倒序返回
+ */
+export async function getThreadHistory<ValuesType>(
+    thread: Thread<ValuesType>,
+    options?: {
+        limit?: number;
+        before?: Config | string;
+        metadata?: Metadata;
+        checkpoint?: CheckpointPayload;
+    },
+): Promise<ThreadState<ValuesType>[]> {
+    const graphId = thread.metadata?.graph_id as string | undefined;
+    if (!graphId) return [];
+
+    const config = getThreadConfig(thread.thread_id, graphId, options?.checkpoint);
+    const before =
+        typeof options?.before === 'string'
+            ? { configurable: { checkpoint_id: options.before } }
+            : (options?.before as RunnableConfig | undefined);
+    const graph = await getGraph(graphId, config);
+    const states: ThreadState<ValuesType>[] = [];
+    for await (const state of graph.getStateHistory(config, {
+        limit: options?.limit ?? 10,
+        before,
+        filter: options?.metadata ?? undefined,
+    })) {
+        states.push(JSON.parse(serialiseAsDict(stateSnapshotToThreadState(state))));
+    }
+    return states;
+}
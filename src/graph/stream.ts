@@ -6,10 +6,13 @@ import type { BaseStreamQueueInterface } from '../queue/stream_queue.js';
 import { concat } from '@langchain/core/utils/stream';
 import { LangGraphGlobal } from '../global.js';
 import { Run } from '@langgraph-js/sdk';
-import { EventMessage, StreamErrorEventMessage, StreamEndEventMessage } from '../queue/event_message.js';
+import { EventMessage, StreamErrorEventMessage, StreamEndEventMessage, isEventAfter } from '../queue/event_message.js';
 
-import { BaseThreadsManager } from '../threads/index.js';
-import { StreamInputData } from '../types.js';
+import { BaseThreadsManager, isRunBefore } from '../threads/index.js';
+import { RunStatus, StreamInputData } from '../types.js';
+import { RunTimeoutError } from '../utils/errors.js';
+import type { RunTicket } from '../queue/run_queue.js';
+import { deleteCheckpointsAfter } from './checkpoints.js';
 
 export type LangGraphStreamMode = Pregel<any, any>['streamMode'][number];
 
@@ -39,6 +42,21 @@ export async function streamStateWithQueue(
         checkpointer: payload.temporary ? null : undefined,
     });
 
+    // 指定 checkpoint 时从该 checkpoint 继续执行，形成新的分支
+    const configurable = { ...payload.config?.configurable };
+    if (payload.checkpoint || payload.checkpointId) {
+        Object.assign(configurable, {
+            checkpoint_id: payload.checkpointId ?? payload.checkpoint?.checkpoint_id,
+            checkpoint_ns: payload.checkpoint?.checkpoint_ns ?? '',
+        });
+        if (payload.checkpoint?.checkpoint_map) {
+            configurable.checkpoint_map = payload.checkpoint.checkpoint_map;
+        }
+        // thread 的 values 切换到新分支的起点
+        const state = await graph.getState({ configurable });
+        await threads.set(run.thread_id, { values: JSON.parse(serialiseAsDict(state.values)) });
+    }
+
     const userStreamMode = payload.streamMode ?? [];
 
     const libStreamMode: Set<LangGraphStreamMode> = new Set([
@@ -54,97 +72,112 @@ export async function streamStateWithQueue(
         libStreamMode.add('values');
     }
 
-    await queue.push(
-        new EventMessage('metadata', {
-            run_id: run.run_id,
-            attempt: options.attempt,
-            graph_id: graphId,
-        }),
-    );
-
     const metadata = {
         ...payload.config?.metadata,
         run_attempt: options.attempt,
     };
-    const events = graph.stream(
-        payload.command != null ? getLangGraphCommand(payload.command) : payload.input ?? null,
-        {
-            interruptAfter: payload.interruptAfter,
-            interruptBefore: payload.interruptBefore,
-
-            tags: payload.config?.tags,
-            configurable: payload.config?.configurable,
-            recursionLimit: payload.config?.recursionLimit,
-            subgraphs: payload.streamSubgraphs,
-            metadata,
-
-            runId: run.run_id,
-            streamMode: [...libStreamMode],
-            signal: queue.cancelSignal.signal,
-        },
-    );
+    const input = payload.command != null ? getLangGraphCommand(payload.command) : payload.input ?? null;
+    const streamOptions = {
+        interruptAfter: payload.interruptAfter,
+        interruptBefore: payload.interruptBefore,
 
-    try {
-        const sendedMetadataMessage = new Set();
-        const messageChunks = new Map<string, AIMessageChunk[]>();
-        for await (const event of await events) {
-            let ns: string[] = [];
-            /** @ts-ignore subgraph 类型可以为 [ns,name,value] */
-            if (event.length === 3) {
-                ns = event.splice(0, 1);
-            }
+        tags: payload.config?.tags,
+        configurable,
+        context: payload.context,
+        recursionLimit: payload.config?.recursionLimit,
+        subgraphs: payload.streamSubgraphs,
+        metadata,
 
-            const getNameWithNs = (name: string) => {
-                if (ns.length === 0) return name;
-                if (ns.length === 1 && ns[0]?.length === 0) return name;
-                return `${name}|${ns.join('|')}`;
-            };
-            if (event[0] === 'values') {
-                const value = event[1];
-                await queue.push(new EventMessage(getNameWithNs('values'), value));
-                if (getNameWithNs('values') === 'values') {
-                    if (value?.__interrupt__) {
-                        await threads.set(run.thread_id, {
-                            status: 'interrupted',
-                            interrupts: value ? JSON.parse(serialiseAsDict(value)) : '',
-                        });
-                    } else {
-                        await threads.set(run.thread_id, {
-                            values: value ? JSON.parse(serialiseAsDict(value)) : '',
-                        });
-                    }
-                }
-            } else if (event[0] === 'messages') {
-                const message = event[1][0];
-                const metadata = event[1][1];
-                // 只在第一次发送 metadata
-                if (message.id && !sendedMetadataMessage.has(message.id)) {
-                    await queue.push(
-                        new EventMessage('messages/metadata', {
-                            [message.id]: metadata,
-                        }),
-                    );
-                    sendedMetadataMessage.add(message.id);
-                }
-                if (AIMessageChunk.isInstance(message) && message.id) {
-                    messageChunks.set(message.id, [
-                        ...(messageChunks.get(message.id) ?? []),
-                        message as AIMessageChunk,
-                    ]);
-                    await queue.push(
-                        new EventMessage('messages/partial', [messageChunks.get(message.id)!.reduce(concat)]),
-                    );
+        runId: run.run_id,
+        streamMode: [...libStreamMode],
+        signal: queue.cancelSignal.signal,
+    };
+    // events 模式需要通过 streamEvents 执行，其余模式的 chunk 从根图的 on_chain_stream 事件中取出
+    const events = userStreamMode.includes('events')
+        ? streamEventsAsChunks(graph, input, streamOptions, queue)
+        : graph.stream(input, streamOptions);
+
+    const sendedMetadataMessage = new Set();
+    const messageChunks = new Map<string, AIMessageChunk[]>();
+    for await (const event of await events) {
+        let ns: string[] = [];
+        /** @ts-ignore subgraph 类型可以为 [ns,name,value] */
+        if (event.length === 3) {
+            ns = event.splice(0, 1)[0];
+        }
+
+        // 与官方格式一致，嵌套的 subgraph 以 | 拼接，如 messages|parent:id|child:id
+        const getNameWithNs = (name: string) => {
+            if (ns.length === 0) return name;
+            return `${name}|${ns.join('|')}`;
+        };
+        if (event[0] === 'values') {
+            const value = event[1];
+            await queue.push(new EventMessage(getNameWithNs('values'), value));
+            if (getNameWithNs('values') === 'values') {
+                if (value?.__interrupt__) {
+                    await threads.set(run.thread_id, {
+                        status: 'interrupted',
+                        interrupts: value ? JSON.parse(serialiseAsDict(value)) : '',
+                    });
                 } else {
-                    await queue.push(new EventMessage('messages/partial', [message]));
+                    await threads.set(run.thread_id, {
+                        values: value ? JSON.parse(serialiseAsDict(value)) : '',
+                    });
                 }
-            } else if (event[0] === 'updates') {
-                const updates = event[1];
-                await queue.push(new EventMessage(getNameWithNs('updates'), updates));
             }
+        } else if (event[0] === 'messages') {
+            const message = event[1][0];
+            const metadata = event[1][1];
+            // messages-tuple 与官方 SDK 一致，每个 chunk 作为 [chunk, metadata] 发送
+            if (userStreamMode.includes('messages-tuple')) {
+                await queue.push(new EventMessage(getNameWithNs('messages'), [message, metadata]));
+            }
+            // messages 发送累积后的完整消息
+            if (!userStreamMode.includes('messages')) continue;
+            // 只在第一次发送 metadata
+            if (message.id && !sendedMetadataMessage.has(message.id)) {
+                await queue.push(
+                    new EventMessage('messages/metadata', {
+                        [message.id]: metadata,
+                    }),
+                );
+                sendedMetadataMessage.add(message.id);
+            }
+            if (AIMessageChunk.isInstance(message) && message.id) {
+                messageChunks.set(message.id, [...(messageChunks.get(message.id) ?? []), message as AIMessageChunk]);
+                await queue.push(new EventMessage('messages/partial', [messageChunks.get(message.id)!.reduce(concat)]));
+            } else {
+                await queue.push(new EventMessage('messages/partial', [message]));
+            }
+        } else if (event[0] === 'updates') {
+            const updates = event[1];
+            await queue.push(new EventMessage(getNameWithNs('updates'), updates));
+        } else if (event[0] === 'custom' || event[0] === 'debug') {
+            await queue.push(new EventMessage(getNameWithNs(event[0]), event[1]));
+        }
+    }
+    // 发送流结束信号，出错时由调用方推送错误信号作为结束
+    await queue.push(new StreamEndEventMessage());
+}
+
+/**
+ * 以 v2 格式的 streamEvents 执行图
+ * 根图的 on_chain_stream 事件中的 chunk 与 graph.stream 的输出相同，原样返回；其余事件作为 events 推送到队列
+ */
+async function* streamEventsAsChunks(
+    graph: Pregel<any, any, any, any, any>,
+    input: unknown,
+    options: { runId: string } & Record<string, unknown>,
+    queue: BaseStreamQueueInterface,
+): AsyncGenerator<any> {
+    for await (const event of graph.streamEvents(input, { ...options, version: 'v2' })) {
+        if (event.tags?.includes('langsmith:hidden')) continue;
+        if (event.event === 'on_chain_stream' && event.run_id === options.runId) {
+            yield event.data.chunk;
+        } else {
+            await queue.push(new EventMessage('events', event));
         }
-    } finally {
-        // 发送流结束信号
-        await queue.push(new StreamEndEventMessage());
     }
 }
 
@@ -180,6 +213,140 @@ export const serialiseAsDict = (obj: unknown, indent = 0) => {
         indent,
     );
 };
+/**
+ * 等待到指定时间，signal 中止时提前返回
+ */
+const waitUntil = (time: string, signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const delay = new Date(time).getTime() - Date.now();
+        if (delay <= 0 || signal.aborted) return resolve();
+        const done = () => {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, delay);
+        signal.addEventListener('abort', done);
+    });
+
+/**
+ * 等待 promise 完成，signal 中止时提前返回
+ */
+export const waitUnlessAborted = (promise: Promise<unknown>, signal?: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        if (signal?.aborted) return resolve();
+        const done = () => {
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        signal?.addEventListener('abort', done);
+        promise.then(done, done);
+    });
+
+/**
+ * run 的最大执行时间（秒），优先使用请求的 timeout_seconds，其次是 assistant 的 configurable.timeout_seconds，最后是环境变量 RUN_TIMEOUT_SECONDS
+ * 返回 undefined 表示不限制
+ */
+const getRunTimeout = (payload: StreamInputData): number | undefined => {
+    const timeout =
+        payload.timeoutSeconds ??
+        payload.config?.configurable?.timeout_seconds ??
+        (process.env.RUN_TIMEOUT_SECONDS ? parseFloat(process.env.RUN_TIMEOUT_SECONDS) : undefined);
+    return timeout && timeout > 0 ? Number(timeout) : undefined;
+};
+
+/**
+ * 出错的 run 在 metadata.error 中记录错误名称、信息与堆栈
+ */
+const serialiseRunError = (error: unknown) =>
+    error instanceof Error
+        ? { error: error.name, message: error.message, traceback: error.stack ?? null }
+        : { error: 'Error', message: String(error), traceback: null };
+
+/**
+ * 处理还没开始执行就被取消的 run
+ * 延迟执行的 run 直接删除，不会留在 listRuns 中；其余的 run 标记为 interrupted 并推送 webhook
+ */
+export async function discardUnstartedRun(
+    threads: BaseThreadsManager,
+    runId: string,
+    options: { delayed?: boolean; webhook?: string },
+) {
+    if (options.delayed) {
+        await threads.deleteRun(runId);
+        return;
+    }
+    await threads.updateRun(runId, { status: 'interrupted' });
+    if (options.webhook) {
+        await LangGraphGlobal.globalWebhookDispatcher.send(threads, runId, options.webhook);
+    }
+}
+
+/**
+ * 回滚已经停止的 run：删除它写入的 checkpoint，按剩下的最新 checkpoint 重置 thread 的 values，并删除 run
+ */
+async function rollbackRun(
+    threads: BaseThreadsManager,
+    run: Run,
+    ticket: RunTicket,
+    getGraph: (
+        graphId: string,
+        config: LangGraphRunnableConfig | undefined,
+    ) => Promise<Pregel<any, any, any, any, any>>,
+) {
+    await deleteCheckpointsAfter(LangGraphGlobal.globalCheckPointer, run.thread_id, ticket.checkpointId ?? null);
+    if (ticket.graphId) {
+        const config = { configurable: { thread_id: run.thread_id, graph_id: ticket.graphId } };
+        const graph = await getGraph(ticket.graphId, config);
+        const state = await graph.getState(config);
+        await threads.set(run.thread_id, {
+            values: JSON.parse(serialiseAsDict(state.values)),
+            status: 'idle',
+            interrupts: {},
+        });
+    }
+    await threads.deleteRun(run.run_id);
+}
+
+/**
+ * 等待轮到 run 执行：thread 上没有其他 running 的 run，也没有按 isRunBefore 排在它之前的 pending run，期间被取消时立即返回
+ * 本实例上的 run 结束时立即重新检查，其他实例上的 run 通过轮询数据库得知
+ */
+async function waitForTurn(threads: BaseThreadsManager, run: Run, signal: AbortSignal) {
+    while (!signal.aborted) {
+        const [pending, running] = await Promise.all([
+            threads.listRuns(run.thread_id, { status: 'pending' }),
+            threads.listRuns(run.thread_id, { status: 'running' }),
+        ]);
+        // 已经被调度器领取的 run 处于 running 状态，只需等待其他 running 的 run
+        const claimed = running.some((other) => other.run_id === run.run_id);
+        const blocked =
+            running.some((other) => other.run_id !== run.run_id) ||
+            (!claimed && pending.some((other) => other.run_id !== run.run_id && isRunBefore(other, run)));
+        if (!blocked) return;
+        const finished = LangGraphGlobal.globalRunQueue
+            .getThreadRuns(run.thread_id)
+            .filter((ticket) => ticket.runId !== run.run_id)
+            .map((ticket) => ticket.done);
+        let timer: NodeJS.Timeout | undefined;
+        const poll = new Promise<void>((resolve) => {
+            timer = setTimeout(resolve, LangGraphGlobal.globalRunScheduler.interval);
+        });
+        await waitUnlessAborted(Promise.race([poll, ...finished]), signal);
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * run 的 metadata 事件，总是队列中的第一个事件
+ */
+export const createMetadataEvent = (run: Run, payload: StreamInputData, attempt: number) =>
+    new EventMessage('metadata', {
+        run_id: run.run_id,
+        attempt,
+        graph_id: payload.config?.configurable?.graph_id,
+    });
+
 /**
  * 兼容性函数：保持原有 API，同时使用队列模式
  * @param run 运行配置
@@ -204,37 +371,130 @@ export async function* streamState(
     // 生成唯一的队列 ID
     const queueId = run.run_id;
     const threadId = run.thread_id;
+    // 提前创建队列，使排队中的 run 也可以被取消；createRunWithStrategy 已经创建时复用该队列
+    const queue = LangGraphGlobal.globalMessageQueue.createQueue(queueId);
+    const ticket =
+        LangGraphGlobal.globalRunQueue.get(run.run_id) ?? LangGraphGlobal.globalRunQueue.acquire(threadId, run.run_id);
+    let task: Promise<void> | undefined;
+    const timeout = getRunTimeout(payload);
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    let runError: unknown;
     try {
+        // 先返回 metadata，排队中的 run 也能立刻得到响应；后台 run 创建时已经推送过
+        const queued = (await queue.getAll()).find((item) => item.event === 'metadata');
+        const metadata = queued ?? createMetadataEvent(run, payload, options.attempt);
+        if (!queued) await queue.push(metadata);
+        yield metadata;
+
+        // 延迟执行的 run 等到计划时间，期间可以被取消
+        if (ticket.scheduledAt) {
+            await waitUntil(ticket.scheduledAt, queue.cancelSignal.signal);
+        }
+        // 等待同一 thread 上之前的 run 结束，期间被取消时立即停止等待
+        await waitForTurn(threads, run, queue.cancelSignal.signal);
+        if (queue.cancelSignal.signal.aborted) {
+            if (ticket.rollback) {
+                await threads.deleteRun(run.run_id);
+            } else {
+                await discardUnstartedRun(threads, run.run_id, {
+                    delayed: !!ticket.scheduledAt,
+                    webhook: ticket.webhook,
+                });
+            }
+            return;
+        }
+        // 记录开始前最新的 checkpoint，回滚时只删除之后写入的 checkpoint
+        const latest = await LangGraphGlobal.globalCheckPointer.getTuple({
+            configurable: { thread_id: threadId, checkpoint_ns: '' },
+        });
+        ticket.checkpointId = latest?.checkpoint.id ?? null;
+        ticket.startedAt = new Date().toISOString();
+        ticket.graphId = payload.config?.configurable?.graph_id;
+        // 超过最大执行时间后通过 cancelSignal 中止图循环
+        if (timeout) {
+            timer = setTimeout(async () => {
+                if (queue.cancelSignal.signal.aborted) return;
+                timedOut = true;
+                const error = new RunTimeoutError(timeout);
+                // 先推送带有 run_timeout 代码的错误事件再中止，停止监听的消费者可以从队列中补齐
+                await queue
+                    .push(new StreamErrorEventMessage(error))
+                    .catch((e) => console.error('Push timeout error:', e));
+                queue.cancelSignal.abort(error);
+            }, timeout * 1000);
+        }
+
         // 启动队列推送任务（在后台异步执行）
         await threads.set(threadId, { status: 'busy' });
         await threads.updateRun(run.run_id, { status: 'running' });
-        const queue = LangGraphGlobal.globalMessageQueue.createQueue(queueId);
         const state = queue.onDataReceive();
-        streamStateWithQueue(threads, run, queue, payload, options).catch((error) => {
-            if (error.message !== 'user cancel this run') console.error('Queue task error:', error);
-            // 如果生产者出错，向队列推送错误信号
-            LangGraphGlobal.globalMessageQueue.pushToQueue(queueId, new StreamErrorEventMessage(error));
-            // TODO 不知道这里需不需要错误处理
-        });
+        task = streamStateWithQueue(threads, run, queue, payload, options)
+            .catch((error) => {
+                // 超时的错误事件已经由定时器推送
+                if (timedOut) return;
+                // 被取消的 run 不记录为错误
+                if (!queue.cancelSignal.signal.aborted) {
+                    console.error('Queue task error:', error);
+                    runError = error;
+                }
+                // 向队列推送错误信号，消费者收到后结束
+                LangGraphGlobal.globalMessageQueue.pushToQueue(queueId, new StreamErrorEventMessage(error));
+            })
+            .finally(() => clearTimeout(timer));
+        let lastEventId = metadata.id;
         for await (const data of state) {
+            lastEventId = data.id ?? lastEventId;
             yield data;
         }
-        await threads.updateRun(run.run_id, { status: 'success' });
+        if (timedOut) {
+            // 中止后队列停止监听，从队列中补齐超时错误
+            for (const data of await queue.getAll()) {
+                if (isEventAfter(data, lastEventId)) yield data;
+            }
+        }
     } catch (error) {
-        // 如果发生错误，确保清理资源
         console.error('Stream error:', error);
-        await threads.updateRun(run.run_id, { status: 'error' });
-        await threads.set(threadId, { status: 'error' });
-        // throw error;
+        runError = error;
     } finally {
-        const nowState = await threads.get(threadId);
-        // 在完成后清理队列
-        if (nowState.status === 'interrupted') {
-            // 注意，interrupted 状态，直接拷贝一个需要恢复状态的队列即可
-            await LangGraphGlobal.globalMessageQueue.copyQueue(queueId, threadId, 30000);
-        } else {
-            await threads.set(threadId, { status: 'idle', interrupts: {} });
+        // 等待图循环真正结束，之后队列中的下一个 run 才能开始
+        await task;
+        clearTimeout(timer);
+        if (ticket.rollback && ticket.startedAt) {
+            // 在释放之前回滚，等待该 run 的调用方与之后的 run 看到的都是回滚后的状态
+            await rollbackRun(threads, run, ticket, options.getGraph).catch((error) => {
+                console.error(`Rollback run ${run.run_id} error:`, error);
+            });
+        } else if (ticket.startedAt || runError) {
+            // 在清理阶段记录 run 的最终状态，调用方提前停止读取时也能得到正确的状态
+            const nowState = await threads.get(threadId);
+            const status: RunStatus = timedOut
+                ? 'timeout'
+                : runError
+                  ? 'error'
+                  : queue.cancelSignal.signal.aborted || nowState.status === 'interrupted'
+                    ? 'interrupted'
+                    : 'success';
+            await threads.updateRun(run.run_id, {
+                status,
+                ...(runError ? { metadata: { ...run.metadata, error: serialiseRunError(runError) } } : {}),
+            });
+            if (status === 'error') {
+                await threads.set(threadId, { status: 'error' });
+            } else if (status === 'interrupted' && nowState.status === 'interrupted') {
+                // 注意，interrupted 状态，直接拷贝一个需要恢复状态的队列即可
+                await LangGraphGlobal.globalMessageQueue.copyQueue(queueId, threadId, 30000);
+            } else {
+                await threads.set(threadId, { status: 'idle', interrupts: {} });
+            }
+            // run 已经得到最终状态，推送 webhook
+            if (ticket.webhook) {
+                await LangGraphGlobal.globalWebhookDispatcher.send(threads, run.run_id, ticket.webhook);
+            }
         }
         LangGraphGlobal.globalMessageQueue.removeQueue(queueId);
+        LangGraphGlobal.globalRunQueue.release(run.run_id);
+        // thread 上排在后面的后台 run 可以开始了
+        LangGraphGlobal.globalRunScheduler.poke();
     }
 }
@@ -1,7 +1,9 @@
 export * from './createEndpoint';
 export * from './types';
 export * from './global';
+export * from './utils/errors';
 
 export * from './threads/index';
+export * from './assistants/index';
 export * from './utils/createStateEntrypoint';
 export * from './agents/index';
@@ -0,0 +1,39 @@
+import type { CancelAction } from '../types.js';
+
+/**
+ * 跨实例的取消请求
+ * Cross-instance cancel request
+ */
+export interface CancelRequest {
+    runId: string;
+    /** 取消方式 / Cancel action */
+    action: CancelAction;
+    /** 是否等待图循环真正停止后再确认完成 / Whether to confirm only after the graph loop has stopped */
+    wait: boolean;
+}
+
+/**
+ * 处理取消请求，当前实例持有该 run 时返回取消任务，否则返回 null
+ * Handles a cancel request, returns the cancel task when this instance owns the run, otherwise null
+ */
+export type CancelRequestHandler = (request: CancelRequest) => Promise<void> | null;
+
+/**
+ * 取消控制通道，让任意实例都可以取消在其他实例上执行的 run
+ * Cancel control channel, lets any instance cancel a run executing on another instance
+ */
+export interface CancelChannel {
+    /**
+     * 订阅其他实例发出的取消请求
+     * Subscribe to cancel requests sent by other instances
+     * @param handler 取消请求处理函数 / Cancel request handler
+     */
+    subscribe(handler: CancelRequestHandler): Promise<void>;
+
+    /**
+     * 发出取消请求，持有该 run 的实例确认后返回 true，超时没有实例确认时返回 false
+     * Send a cancel request, returns true once the owning instance confirms, false when nobody confirms in time
+     * @param request 取消请求 / Cancel request
+     */
+    request(request: CancelRequest): Promise<boolean>;
+}
@@ -1,6 +1,7 @@
 export class EventMessage {
     event: string;
     data: unknown;
+    /** 推送到队列时分配的 id，同一队列内单调递增，用于断线后从指定事件之后恢复 */
     id?: string;
     constructor(event: string, data?: unknown) {
         this.event = event;
@@ -8,6 +9,14 @@ export class EventMessage {
     }
 }
 
+/**
+ * 判断事件是否在 lastEventId 之后，没有 lastEventId 或无法解析时总是返回 true
+ */
+export const isEventAfter = (message: EventMessage, lastEventId?: string) => {
+    if (lastEventId === undefined || message.id === undefined || isNaN(Number(lastEventId))) return true;
+    return Number(message.id) > Number(lastEventId);
+};
+
 export class CancelEventMessage extends EventMessage {
     constructor() {
         super('__system_cancel__', 'user cancel this run');
@@ -21,10 +30,12 @@ export class StreamEndEventMessage extends EventMessage {
 }
 
 export class StreamErrorEventMessage extends EventMessage {
-    public constructor(error: Error) {
+    /** error 带有 code 时（例如 run_timeout）一并返回，方便客户端区分错误类型 */
+    public constructor(error: Error & { code?: string }) {
         super('__stream_error__', {
             error: error.name,
             message: error.message,
+            ...(error.code ? { code: error.code } : {}),
         });
     }
 }
@@ -0,0 +1,106 @@
+/**
+ * run 排队凭证
+ * Run queue ticket
+ */
+export interface RunTicket {
+    runId: string;
+    threadId: string;
+    /** run 使用的图 ID / Graph ID used by the run */
+    graphId?: string;
+    /** run 真正开始执行的时间 / Time the run actually started */
+    startedAt?: string;
+    /**
+     * run 开始前 thread 最新的 checkpoint，回滚时删除其后写入的 checkpoint；为 null 时 thread 还没有 checkpoint
+     * Latest checkpoint of the thread before the run started, rollback deletes the checkpoints written after it; null when the thread had none
+     */
+    checkpointId?: string | null;
+    /** 取消时要求回滚，run 停止后、释放之前回滚 / Rollback requested on cancel, applied after the run stops and before it is released */
+    rollback?: boolean;
+    /** 延迟执行的 run 计划开始的时间 / Scheduled start time of a delayed run */
+    scheduledAt?: string;
+    /** run 结束后推送结果的地址 / URL notified when the run finishes */
+    webhook?: string;
+    /** run 结束后 resolve / Resolves when the run has finished */
+    done: Promise<void>;
+}
+
+/**
+ * 本实例上未结束的 run，以及 thread 级的独占操作
+ * Unfinished runs of this instance, plus per-thread exclusive operations
+ *
+ * 同一 thread 上 run 的执行顺序由数据库中的 run 决定，见 isRunBefore
+ * The order of runs on a thread is decided by the runs in the database, see isRunBefore
+ */
+export class ThreadRunQueue {
+    /** 未结束的 run，按加入顺序排列 / Unfinished runs in insertion order */
+    private tickets: Map<string, RunTicket & { resolve: () => void }> = new Map();
+    /** 每个 thread 上最后一个独占操作 / Last exclusive operation of each thread */
+    private locks: Map<string, Promise<void>> = new Map();
+
+    /**
+     * 在 thread 上独占执行，同一 thread 的操作依次执行，检查 thread 状态与加入队列之间不会插入其他 run
+     * Run exclusively on a thread, operations on the same thread run one after another so no other run can slip in between checking the thread and joining the queue
+     * @param threadId 线程 ID / Thread ID
+     * @param fn 独占执行的操作 / Operation to run exclusively
+     */
+    async exclusive<T>(threadId: string, fn: () => Promise<T>): Promise<T> {
+        const previous = this.locks.get(threadId) ?? Promise.resolve();
+        const result = previous.then(fn);
+        const settled = result.then(
+            () => undefined,
+            () => undefined,
+        );
+        this.locks.set(threadId, settled);
+        try {
+            return await result;
+        } finally {
+            if (this.locks.get(threadId) === settled) {
+                this.locks.delete(threadId);
+            }
+        }
+    }
+
+    /**
+     * 记录本实例上开始处理的 run
+     * Record a run this instance starts handling
+     * @param threadId 线程 ID / Thread ID
+     * @param runId 运行 ID / Run ID
+     */
+    acquire(threadId: string, runId: string): RunTicket {
+        let resolve!: () => void;
+        const done = new Promise<void>((r) => {
+            resolve = r;
+        });
+        const ticket = { runId, threadId, done, resolve };
+        this.tickets.set(runId, ticket);
+        return ticket;
+    }
+
+    /**
+     * 标记 run 结束
+     * Mark a run as finished
+     * @param runId 运行 ID / Run ID
+     */
+    release(runId: string): void {
+        const ticket = this.tickets.get(runId);
+        if (!ticket) return;
+        this.tickets.delete(runId);
+        ticket.resolve();
+    }
+
+    /**
+     * 获取未结束 run 的凭证
+     * Get the ticket of an unfinished run
+     */
+    get(runId: string): RunTicket | undefined {
+        return this.tickets.get(runId);
+    }
+
+    /**
+     * 获取本实例上 thread 所有未结束的 run，按加入顺序排列
+     * Get all unfinished runs of a thread on this instance in insertion order
+     */
+    getThreadRuns(threadId: string): RunTicket[] {
+        return Array.from(this.tickets.values()).filter((ticket) => ticket.threadId === threadId);
+    }
+}
@@ -0,0 +1,124 @@
+import { LangGraphGlobal } from '../global.js';
+
+/**
+ * 读取正整数环境变量，未设置或不合法时使用默认值
+ * Read a positive integer environment variable, falling back to the default when unset or invalid
+ */
+const readPositiveInt = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+        console.warn(`LG | ${name} must be a positive integer, got "${raw}", using ${fallback}`);
+        return fallback;
+    }
+    return value;
+};
+
+/**
+ * 后台 run 调度器，定时从数据库领取可以执行的 run，并限制同时执行的图数量
+ * Background run scheduler, periodically claims runnable runs from the database and limits how many graphs run at once
+ *
+ * 后台 run 以 pending 状态连同参数保存在数据库中，进程重启后仍会被执行；延迟执行的 run 到 created_at 之后才会被领取
+ * Background runs are stored as pending together with their arguments so they survive restarts; delayed runs are claimed once created_at has passed
+ *
+ * 多个实例共享数据库时，通过 claimRun 条件更新 run 的状态，每个 run 只会有一个实例执行
+ * When several instances share a database, claimRun makes sure each run executes on one instance only
+ */
+export class RunScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+    /** 检查期间有新的 run 可以执行，结束后需要再检查一次 / Runs became runnable during a check, check again afterwards */
+    private dirty = false;
+    /** 本实例正在执行的 run / Runs executing on this instance */
+    private running: Set<string> = new Set();
+
+    /**
+     * 构造函数
+     * Constructor
+     * @param concurrency 最大并发数 / Maximum concurrency
+     * @param interval 检查间隔（毫秒）/ Polling interval in milliseconds
+     */
+    constructor(
+        readonly concurrency: number = readPositiveInt('MAX_CONCURRENT_RUNS', 10),
+        readonly interval: number = readPositiveInt('RUN_POLL_INTERVAL', 1000),
+    ) {}
+
+    /**
+     * 开始定时检查，重复调用不会创建多个定时器
+     * Start polling, calling it again does not create another timer
+     */
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.poke(), this.interval);
+        // 不阻止进程退出 / Do not keep the process alive
+        this.timer.unref?.();
+    }
+
+    /**
+     * 停止定时检查，已经开始的 run 继续执行
+     * Stop polling, runs already started keep executing
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * 立即检查一次，创建 run 或 run 结束时调用，不必等到下一次定时检查
+     * Check right away, called when a run is created or finishes instead of waiting for the next poll
+     */
+    poke(): void {
+        this.tick().catch((error) => {
+            console.error('Run scheduler error:', error);
+        });
+    }
+
+    /**
+     * 执行一次检查，在并发限制内领取并执行可以开始的 run
+     * Run one check, claiming and executing runnable runs within the concurrency limit
+     */
+    async tick(): Promise<void> {
+        if (this.ticking) {
+            this.dirty = true;
+            return;
+        }
+        this.ticking = true;
+        try {
+            do {
+                this.dirty = false;
+                await this.claimDueRuns();
+            } while (this.dirty);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /** 本实例正在执行的 run 数量 / Number of runs executing on this instance */
+    get runningCount(): number {
+        return this.running.size;
+    }
+
+    private async claimDueRuns(): Promise<void> {
+        const free = this.concurrency - this.running.size;
+        if (free <= 0) return;
+        const { executeBackgroundRun } = await import('../createEndpoint.js');
+        const threads = LangGraphGlobal.globalThreadsManager;
+        for (const run of await threads.listDueRuns(new Date().toISOString(), free)) {
+            // 其他实例已经领取，或者 run 已经被取消 / Already claimed by another instance, or cancelled
+            const kwargs = await threads.claimRun(run.run_id);
+            if (!kwargs) continue;
+            this.running.add(run.run_id);
+            executeBackgroundRun(run, kwargs)
+                .catch((error) => {
+                    console.error(`Background run ${run.run_id} error:`, error);
+                })
+                .finally(() => {
+                    this.running.delete(run.run_id);
+                    this.poke();
+                });
+        }
+    }
+}
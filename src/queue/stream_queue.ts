@@ -62,8 +62,8 @@ export interface BaseStreamQueueInterface {
     /** 是否压缩消息 / Whether to compress messages */
     compressMessages: boolean;
     /**
-     * 推送数据项到队列
-     * Push item to queue
+     * 推送数据项到队列，并为其分配队列内单调递增的 id
+     * Push item to queue, assigning it an id that increases monotonically within the queue
      * @param item 要推送的数据项 / Item to push
      */
     push(item: EventMessage): Promise<void>;
@@ -124,14 +124,16 @@ export class StreamQueueManager<Q extends BaseStreamQueueInterface> {
     }
 
     /**
-     * 创建指定 id 的队列
-     * Create queue with specified id
+     * 创建指定 id 的队列，本实例中已存在时返回已有的队列
+     * Create queue with specified id, returns the existing queue when this instance already has one
      * @param id 队列 ID / Queue ID
      * @param compressMessages 是否压缩消息 / Whether to compress messages
      * @returns 创建的队列实例 / Created queue instance
      */
     createQueue(id: string, ttl: number = 300): Q {
-        this.queues.set(id, new this.queueConstructor(id, this.defaultCompressMessages, ttl));
+        if (!this.queues.has(id)) {
+            this.queues.set(id, new this.queueConstructor(id, this.defaultCompressMessages, ttl));
+        }
         return this.queues.get(id)!;
     }
 
@@ -215,6 +217,20 @@ export class StreamQueueManager<Q extends BaseStreamQueueInterface> {
         }, 500);
     }
 
+    /**
+     * 清空并删除指定 id 的队列，包括只存在于其他实例中的队列
+     * Clear and delete queue with specified id, including queues only present on other instances
+     * @param id 队列 ID / Queue ID
+     */
+    async deleteQueue(id: string): Promise<void> {
+        const queue =
+            this.queues.get(id) ??
+            ((await this.queueConstructor?.isQueueExist?.(id)) ? this.createQueue(id) : undefined);
+        if (!queue) return;
+        queue.clear();
+        this.queues.delete(id);
+    }
+
     /**
      * 获取所有队列的 ID
      * Get all queue IDs
@@ -1,6 +1,12 @@
 import { BaseStreamQueueInterface, StreamQueueManager } from '../queue/stream_queue';
+import type { CancelChannel } from '../queue/cancel_channel';
 import { KyselyThreadsManager } from './kysely/threads';
+import { KyselyAssistantsManager } from './kysely/assistants';
+import { KyselyStore } from './kysely/store';
+import { MemoryAssistantsManager } from './memory/assistants';
 import { MemorySaver } from './memory/checkpoint';
+import { InMemoryStore } from './memory/store';
+import { getStoreIndex, toIndexConfig } from './store_index';
 import { MemoryStreamQueue } from './memory/queue';
 import { MemoryThreadsManager } from './memory/threads';
 import type { SqliteSaver as SqliteSaverType } from './sqlite/checkpoint';
@@ -63,6 +69,17 @@ export const createMessageQueue = async () => {
     return new StreamQueueManager(q);
 };
 
+/**
+ * 使用 Redis 时创建跨实例的取消通道，单实例部署不需要
+ */
+export const createCancelChannel = async (): Promise<CancelChannel | null> => {
+    if (process.env.REDIS_URL) {
+        const { RedisCancelChannel } = await import('./redis/cancel_channel');
+        return RedisCancelChannel.create();
+    }
+    return null;
+};
+
 export const createThreadManager = async (config: { checkpointer?: SqliteSaverType | PostgresSaver }) => {
     if (process.env.DATABASE_URL && config.checkpointer) {
         console.debug('LG | Using PostgreSQL ThreadsManager');
@@ -85,3 +102,48 @@ export const createThreadManager = async (config: { checkpointer?: SqliteSaverTy
     }
     return new MemoryThreadsManager();
 };
+
+export const createAssistantsManager = async (config: { checkpointer?: SqliteSaverType | PostgresSaver }) => {
+    if (process.env.DATABASE_URL && config.checkpointer) {
+        console.debug('LG | Using PostgreSQL AssistantsManager');
+        const { PostgresAdapter } = await import('./kysely/pg-adapter');
+        const pool = (config.checkpointer as PostgresSaver as any).pool;
+        const assistantsManager = new KyselyAssistantsManager(new PostgresAdapter(pool));
+        if (process.env.DATABASE_INIT === 'true') {
+            await assistantsManager.setup();
+        }
+        return assistantsManager;
+    }
+    if (process.env.SQLITE_DATABASE_URI && config.checkpointer) {
+        console.debug('LG | Using SQLite AssistantsManager');
+        const { SQLiteAdapter } = await import('./kysely/sqlite-adapter');
+        const database = (config.checkpointer as SqliteSaverType).db;
+        const assistantsManager = new KyselyAssistantsManager(new SQLiteAdapter(database));
+        await assistantsManager.setup();
+        return assistantsManager;
+    }
+    return new MemoryAssistantsManager();
+};
+
+export const createStore = async (config: { checkpointer?: SqliteSaverType | PostgresSaver }) => {
+    const index = getStoreIndex();
+    if (process.env.DATABASE_URL && config.checkpointer) {
+        console.debug('LG | Using PostgreSQL Store');
+        const { PostgresAdapter } = await import('./kysely/pg-adapter');
+        const pool = (config.checkpointer as PostgresSaver as any).pool;
+        const store = new KyselyStore(new PostgresAdapter(pool), { index });
+        if (process.env.DATABASE_INIT === 'true') {
+            await store.setup();
+        }
+        return store;
+    }
+    if (process.env.SQLITE_DATABASE_URI && config.checkpointer) {
+        console.debug('LG | Using SQLite Store');
+        const { SQLiteAdapter } = await import('./kysely/sqlite-adapter');
+        const database = (config.checkpointer as SqliteSaverType).db;
+        const store = new KyselyStore(new SQLiteAdapter(database), { index });
+        await store.setup();
+        return store;
+    }
+    return new InMemoryStore({ index: index ? toIndexConfig(index) : undefined });
+};
@@ -30,12 +30,12 @@ export interface DatabaseAdapter {
     /**
      * 构建 JSON 字段查询表达式
      * @param field - JSON 字段名（如 'metadata'）
-     * @param key - JSON 对象的键
+     * @param key - JSON 对象的键，以 . 访问嵌套字段（如 'user.name'）
      * @param value - 要匹配的值
      */
     buildJsonQuery(
         db: Kysely<Database>,
-        field: 'metadata' | 'interrupts',
+        field: 'metadata' | 'interrupts' | 'value' | 'values',
         key: string,
         value: any,
     ): Expression<SqlBool>;
@@ -54,4 +54,26 @@ export interface DatabaseAdapter {
      * 创建索引
      */
     createIndexes(db: Kysely<Database>): Promise<void>;
+
+    /**
+     * 创建 Store 的向量表，只在配置了向量索引时调用
+     * @param dims - embedding 向量的维度
+     */
+    createVectorTables(db: Kysely<Database>, dims: number): Promise<void>;
+
+    /**
+     * 将向量转换为数据库存储格式
+     */
+    vectorToDb(vector: number[]): any;
+
+    /**
+     * 将数据库中的向量转换为数组
+     */
+    dbToVector(dbValue: any): number[];
+
+    /**
+     * 构建 embedding 列与查询向量的余弦相似度表达式
+     * 数据库不支持向量运算时返回 null，由 Store 在内存中计算相似度
+     */
+    buildVectorSimilarity(db: Kysely<Database>, queryVector: number[]): Expression<number> | null;
 }
@@ -0,0 +1,321 @@
+import { Kysely, SelectQueryBuilder } from 'kysely';
+import { Assistant, AssistantVersion, Config, Metadata, OnConflictBehavior } from '@langgraph-js/sdk';
+import { BaseAssistantsManager } from '../../assistants/index.js';
+import { AssistantSortBy, SortOrder } from '../../types';
+import { HTTPError } from '../../utils/errors.js';
+import { Database } from './types';
+import { DatabaseAdapter } from './adapter';
+
+/**
+ * 使用 Kysely 实现的 AssistantsManager
+ * 每次更新都会在 assistant_versions 表中写入一个新版本
+ */
+export class KyselyAssistantsManager implements BaseAssistantsManager {
+    private db: Kysely<Database>;
+    private adapter: DatabaseAdapter;
+
+    constructor(adapter: DatabaseAdapter) {
+        this.db = adapter.db;
+        this.adapter = adapter;
+    }
+
+    async setup(): Promise<void> {
+        await this.adapter.createTables(this.db);
+        await this.adapter.createIndexes(this.db);
+    }
+
+    async create(payload: {
+        graphId: string;
+        assistantId?: string;
+        config?: Config;
+        context?: unknown;
+        metadata?: Metadata;
+        ifExists?: OnConflictBehavior;
+        name?: string;
+        description?: string;
+    }): Promise<Assistant> {
+        const assistantId = payload.assistantId || crypto.randomUUID();
+
+        const now = new Date();
+        const assistant: Assistant = {
+            assistant_id: assistantId,
+            graph_id: payload.graphId,
+            name: payload.name ?? payload.graphId,
+            description: payload.description,
+            config: payload.config ?? {},
+            context: payload.context ?? {},
+            metadata: payload.metadata ?? {},
+            version: 1,
+            created_at: now.toISOString(),
+            updated_at: now.toISOString(),
+        };
+
+        // 直接插入并忽略主键冲突，避免先查询再插入时并发请求同时通过检查
+        const inserted = await this.db.transaction().execute(async (trx) => {
+            const result = await trx
+                .insertInto('assistants')
+                .values({
+                    assistant_id: assistantId,
+                    graph_id: assistant.graph_id,
+                    name: assistant.name,
+                    description: assistant.description ?? null,
+                    config: this.adapter.jsonToDb(assistant.config),
+                    context: this.adapter.jsonToDb(assistant.context),
+                    metadata: this.adapter.jsonToDb(assistant.metadata),
+                    version: 1,
+                    created_at: this.adapter.dateToDb(now) as any,
+                    updated_at: this.adapter.dateToDb(now) as any,
+                })
+                .onConflict((oc) => oc.column('assistant_id').doNothing())
+                .executeTakeFirst();
+            if (!result.numInsertedOrUpdatedRows) return false;
+            await trx
+                .insertInto('assistant_versions')
+                .values({
+                    assistant_id: assistantId,
+                    version: 1,
+                    graph_id: assistant.graph_id,
+                    name: assistant.name,
+                    description: assistant.description ?? null,
+                    config: this.adapter.jsonToDb(assistant.config),
+                    context: this.adapter.jsonToDb(assistant.context),
+                    metadata: this.adapter.jsonToDb(assistant.metadata),
+                    created_at: this.adapter.dateToDb(now) as any,
+                })
+                .execute();
+            return true;
+        });
+
+        if (!inserted) {
+            if (payload.ifExists === 'do_nothing') {
+                return this.get(assistantId);
+            }
+            throw new HTTPError(409, `Assistant with ID ${assistantId} already exists.`);
+        }
+
+        return assistant;
+    }
+
+    async get(assistantId: string): Promise<Assistant> {
+        const row = await this.db
+            .selectFrom('assistants')
+            .selectAll()
+            .where('assistant_id', '=', assistantId)
+            .executeTakeFirst();
+
+        if (!row) {
+            throw new HTTPError(404, `Assistant with ID ${assistantId} not found.`);
+        }
+
+        return this.toAssistant(row);
+    }
+
+    async update(
+        assistantId: string,
+        payload: {
+            graphId?: string;
+            config?: Config;
+            context?: unknown;
+            metadata?: Metadata;
+            name?: string;
+            description?: string;
+        },
+    ): Promise<Assistant> {
+        const current = await this.get(assistantId);
+        const latest = await this.db
+            .selectFrom('assistant_versions')
+            .select((eb) => eb.fn.max('version').as('version'))
+            .where('assistant_id', '=', assistantId)
+            .executeTakeFirst();
+
+        const now = new Date();
+        const next: Assistant = {
+            ...current,
+            graph_id: payload.graphId ?? current.graph_id,
+            name: payload.name ?? current.name,
+            description: payload.description ?? current.description,
+            config: payload.config ?? current.config,
+            context: payload.context ?? current.context,
+            metadata: { ...current.metadata, ...payload.metadata },
+            version: Number(latest?.version ?? current.version) + 1,
+            updated_at: now.toISOString(),
+        };
+
+        await this.db.transaction().execute(async (trx) => {
+            await trx
+                .insertInto('assistant_versions')
+                .values({
+                    assistant_id: assistantId,
+                    version: next.version,
+                    graph_id: next.graph_id,
+                    name: next.name,
+                    description: next.description ?? null,
+                    config: this.adapter.jsonToDb(next.config),
+                    context: this.adapter.jsonToDb(next.context),
+                    metadata: this.adapter.jsonToDb(next.metadata),
+                    created_at: this.adapter.dateToDb(now) as any,
+                })
+                .execute();
+            await trx
+                .updateTable('assistants')
+                .set({
+                    graph_id: next.graph_id,
+                    name: next.name,
+                    description: next.description ?? null,
+                    config: this.adapter.jsonToDb(next.config),
+                    context: this.adapter.jsonToDb(next.context),
+                    metadata: this.adapter.jsonToDb(next.metadata),
+                    version: next.version,
+                    updated_at: this.adapter.dateToDb(now) as any,
+                })
+                .where('assistant_id', '=', assistantId)
+                .execute();
+        });
+
+        return next;
+    }
+
+    async delete(assistantId: string): Promise<void> {
+        const result = await this.db.transaction().execute(async (trx) => {
+            await trx.deleteFrom('assistant_versions').where('assistant_id', '=', assistantId).execute();
+            return trx.deleteFrom('assistants').where('assistant_id', '=', assistantId).executeTakeFirst();
+        });
+
+        if (result.numDeletedRows === 0n) {
+            throw new HTTPError(404, `Assistant with ID ${assistantId} not found.`);
+        }
+    }
+
+    async search(query?: {
+        graphId?: string;
+        metadata?: Metadata;
+        limit?: number;
+        offset?: number;
+        sortBy?: AssistantSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Assistant[]> {
+        let queryBuilder = this.applyAssistantFilter(this.db.selectFrom('assistants').selectAll(), query);
+
+        const order = query?.sortOrder === 'asc' ? 'asc' : 'desc';
+        queryBuilder = queryBuilder.orderBy(query?.sortBy ?? 'created_at', order);
+
+        if (query?.limit !== undefined) {
+            queryBuilder = queryBuilder.limit(query.limit);
+            if (query?.offset !== undefined) {
+                queryBuilder = queryBuilder.offset(query.offset);
+            }
+        }
+
+        const rows = await queryBuilder.execute();
+        return rows.map((row) => this.toAssistant(row));
+    }
+
+    async count(query?: { graphId?: string; metadata?: Metadata }): Promise<number> {
+        const row = await this.applyAssistantFilter(
+            this.db.selectFrom('assistants').select((eb) => eb.fn.countAll().as('count')),
+            query,
+        ).executeTakeFirst();
+        return Number(row?.count ?? 0);
+    }
+
+    /**
+     * 添加 search 与 count 共用的过滤条件
+     */
+    private applyAssistantFilter<QB extends SelectQueryBuilder<Database, 'assistants', any>>(
+        queryBuilder: QB,
+        query?: { graphId?: string; metadata?: Metadata },
+    ): QB {
+        if (query?.graphId) {
+            queryBuilder = queryBuilder.where('graph_id', '=', query.graphId) as QB;
+        }
+
+        if (query?.metadata) {
+            for (const [key, value] of Object.entries(query.metadata)) {
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'metadata', key, value)) as QB;
+            }
+        }
+        return queryBuilder;
+    }
+
+    async getVersions(
+        assistantId: string,
+        payload?: { metadata?: Metadata; limit?: number; offset?: number },
+    ): Promise<AssistantVersion[]> {
+        let queryBuilder = this.db
+            .selectFrom('assistant_versions')
+            .selectAll()
+            .where('assistant_id', '=', assistantId)
+            .orderBy('version', 'desc');
+
+        if (payload?.metadata) {
+            for (const [key, value] of Object.entries(payload.metadata)) {
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'metadata', key, value) as any);
+            }
+        }
+
+        if (payload?.limit !== undefined) {
+            queryBuilder = queryBuilder.limit(payload.limit);
+            if (payload?.offset !== undefined) {
+                queryBuilder = queryBuilder.offset(payload.offset);
+            }
+        }
+
+        const rows = await queryBuilder.execute();
+        return rows.map((row) => ({
+            assistant_id: row.assistant_id,
+            graph_id: row.graph_id,
+            name: row.name,
+            description: row.description ?? undefined,
+            config: this.adapter.dbToJson(row.config),
+            context: this.adapter.dbToJson(row.context),
+            metadata: this.adapter.dbToJson(row.metadata),
+            version: Number(row.version),
+            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
+        }));
+    }
+
+    async setLatest(assistantId: string, version: number): Promise<Assistant> {
+        const row = await this.db
+            .selectFrom('assistant_versions')
+            .selectAll()
+            .where('assistant_id', '=', assistantId)
+            .where('version', '=', version)
+            .executeTakeFirst();
+
+        if (!row) {
+            throw new HTTPError(404, `Version ${version} of assistant ${assistantId} not found.`);
+        }
+
+        await this.db
+            .updateTable('assistants')
+            .set({
+                graph_id: row.graph_id,
+                name: row.name,
+                description: row.description,
+                config: row.config,
+                context: row.context,
+                metadata: row.metadata,
+                version: row.version,
+                updated_at: this.adapter.dateToDb(new Date()) as any,
+            })
+            .where('assistant_id', '=', assistantId)
+            .execute();
+
+        return this.get(assistantId);
+    }
+
+    private toAssistant(row: any): Assistant {
+        return {
+            assistant_id: row.assistant_id,
+            graph_id: row.graph_id,
+            name: row.name,
+            description: row.description ?? undefined,
+            config: this.adapter.dbToJson(row.config),
+            context: this.adapter.dbToJson(row.context),
+            metadata: this.adapter.dbToJson(row.metadata),
+            version: Number(row.version),
+            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
+            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
+        };
+    }
+}
@@ -3,8 +3,19 @@
  * 使用 Kysely 实现的存储层，支持多数据库适配
  */
 
-export type { Database, ThreadsTable, RunsTable } from './types';
+export type {
+    Database,
+    ThreadsTable,
+    RunsTable,
+    CronsTable,
+    AssistantsTable,
+    AssistantVersionsTable,
+    StoreItemsTable,
+    StoreVectorsTable,
+} from './types';
 export { type DatabaseAdapter } from './adapter';
 export { PostgresAdapter } from './pg-adapter';
 export { SQLiteAdapter } from './sqlite-adapter';
 export { KyselyThreadsManager } from './threads';
+export { KyselyAssistantsManager } from './assistants';
+export { KyselyStore } from './store';
@@ -11,6 +11,8 @@ import { Pool } from 'pg';
  */
 export class PostgresAdapter implements DatabaseAdapter {
     db: Kysely<Database>;
+    /** store_vectors.embedding 是否为 pgvector 的 vector 类型 */
+    private vectorEnabled = false;
     constructor(public pool: Pool) {
         this.db = new Kysely<Database>({
             dialect: new PostgresDialect({
@@ -40,13 +42,14 @@ export class PostgresAdapter implements DatabaseAdapter {
 
     buildJsonQuery(
         db: Kysely<Database>,
-        field: 'metadata' | 'interrupts',
+        field: 'metadata' | 'interrupts' | 'value' | 'values',
         key: string,
         value: any,
     ): Expression<SqlBool> {
-        // PostgreSQL 使用 -> 操作符访问 JSONB 字段
-        // 注意：-> 返回 JSONB，->> 返回 text
-        return sql<boolean>`${sql.ref(field)}->>${sql.lit(key)} = ${sql.lit(JSON.stringify(value))}`;
+        // PostgreSQL 使用 #> 操作符按路径访问 JSONB 字段，与 SQLite 的 $.a.b 路径一致
+        // 注意：#> 返回 JSONB，#>> 返回 text，这里与 JSONB 比较，字符串不会带引号
+        const path = sql.join(key.split('.').map((part) => sql.lit(part)));
+        return sql<boolean>`${sql.ref(field)} #> ARRAY[${path}]::text[] = ${sql.lit(JSON.stringify(value))}::jsonb`;
     }
 
     now(): Date {
@@ -78,9 +81,91 @@ export class PostgresAdapter implements DatabaseAdapter {
                 status TEXT NOT NULL DEFAULT 'pending',
                 metadata JSONB NOT NULL DEFAULT '{}',
                 multitask_strategy TEXT NOT NULL DEFAULT 'reject',
+                kwargs JSONB,
                 FOREIGN KEY (thread_id) REFERENCES threads(thread_id) ON DELETE CASCADE
             )
         `.execute(db);
+
+        // 旧版本创建的 runs 表没有 kwargs 列
+        await sql`ALTER TABLE runs ADD COLUMN IF NOT EXISTS kwargs JSONB`.execute(db);
+
+        // 创建 crons 表，thread_id 为空时每次触发都会创建新的 thread
+        await sql`
+            CREATE TABLE IF NOT EXISTS crons (
+                cron_id TEXT PRIMARY KEY,
+                assistant_id TEXT NOT NULL,
+                thread_id TEXT,
+                user_id TEXT,
+                schedule TEXT NOT NULL,
+                payload JSONB NOT NULL DEFAULT '{}',
+                metadata JSONB NOT NULL DEFAULT '{}',
+                end_time TIMESTAMP,
+                next_run_date TIMESTAMP,
+                created_at TIMESTAMP NOT NULL,
+                updated_at TIMESTAMP NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 webhook_deliveries 表，记录 run 结束后 webhook 的投递结果
+        await sql`
+            CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                delivery_id TEXT PRIMARY KEY,
+                run_id TEXT NOT NULL,
+                thread_id TEXT NOT NULL,
+                url TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                response_status INTEGER,
+                error TEXT,
+                created_at TIMESTAMP NOT NULL,
+                updated_at TIMESTAMP NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 assistants 表
+        await sql`
+            CREATE TABLE IF NOT EXISTS assistants (
+                assistant_id TEXT PRIMARY KEY,
+                graph_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                description TEXT,
+                config JSONB NOT NULL DEFAULT '{}',
+                context JSONB NOT NULL DEFAULT '{}',
+                metadata JSONB NOT NULL DEFAULT '{}',
+                version INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP NOT NULL,
+                updated_at TIMESTAMP NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 assistant_versions 表
+        await sql`
+            CREATE TABLE IF NOT EXISTS assistant_versions (
+                assistant_id TEXT NOT NULL,
+                version INTEGER NOT NULL,
+                graph_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                description TEXT,
+                config JSONB NOT NULL DEFAULT '{}',
+                context JSONB NOT NULL DEFAULT '{}',
+                metadata JSONB NOT NULL DEFAULT '{}',
+                created_at TIMESTAMP NOT NULL,
+                PRIMARY KEY (assistant_id, version),
+                FOREIGN KEY (assistant_id) REFERENCES assistants(assistant_id) ON DELETE CASCADE
+            )
+        `.execute(db);
+
+        // 创建 store_items 表，namespace 以 '.' 拼接后存储
+        await sql`
+            CREATE TABLE IF NOT EXISTS store_items (
+                namespace TEXT NOT NULL,
+                key TEXT NOT NULL,
+                value JSONB NOT NULL,
+                created_at TIMESTAMP NOT NULL,
+                updated_at TIMESTAMP NOT NULL,
+                PRIMARY KEY (namespace, key)
+            )
+        `.execute(db);
     }
 
     async createIndexes(db: Kysely<Database>): Promise<void> {
@@ -89,5 +174,60 @@ export class PostgresAdapter implements DatabaseAdapter {
         await sql`CREATE INDEX IF NOT EXISTS idx_threads_updated_at ON threads(updated_at)`.execute(db);
         await sql`CREATE INDEX IF NOT EXISTS idx_runs_thread_id ON runs(thread_id)`.execute(db);
         await sql`CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status)`.execute(db);
+        // 调度器按状态与计划开始时间查找可以执行的 run
+        await sql`CREATE INDEX IF NOT EXISTS idx_runs_status_created_at ON runs(status, created_at)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_crons_next_run_date ON crons(next_run_date)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_crons_thread_id ON crons(thread_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_run_id ON webhook_deliveries(run_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_assistants_graph_id ON assistants(graph_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_store_items_updated_at ON store_items(updated_at)`.execute(db);
+    }
+
+    async createVectorTables(db: Kysely<Database>, dims: number): Promise<void> {
+        // 优先使用 pgvector，未安装时 embedding 以 JSONB 存储
+        try {
+            await sql`CREATE EXTENSION IF NOT EXISTS vector`.execute(db);
+        } catch (error) {
+            console.warn('LG | pgvector is not available, store vector search will run in memory');
+        }
+        const extension = await sql<{ installed: boolean }>`
+            SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') AS installed
+        `.execute(db);
+        const embeddingType = extension.rows[0]?.installed ? sql.raw(`vector(${Math.trunc(dims)})`) : sql.raw('JSONB');
+
+        await sql`
+            CREATE TABLE IF NOT EXISTS store_vectors (
+                namespace TEXT NOT NULL,
+                key TEXT NOT NULL,
+                field_name TEXT NOT NULL,
+                embedding ${embeddingType} NOT NULL,
+                created_at TIMESTAMP NOT NULL,
+                PRIMARY KEY (namespace, key, field_name)
+            )
+        `.execute(db);
+
+        // 表可能在安装 pgvector 之前就已经创建，以实际的列类型为准
+        const column = await sql<{ udt_name: string }>`
+            SELECT udt_name FROM information_schema.columns
+            WHERE table_name = 'store_vectors' AND column_name = 'embedding'
+        `.execute(db);
+        this.vectorEnabled = column.rows[0]?.udt_name === 'vector';
+    }
+
+    vectorToDb(vector: number[]): string {
+        // pgvector 的文本格式与 JSON 数组相同，同时兼容 JSONB 列
+        return JSON.stringify(vector);
+    }
+
+    dbToVector(dbValue: any): number[] {
+        // vector 列返回 '[1,2,3]' 字符串，JSONB 列返回数组
+        return typeof dbValue === 'string' ? JSON.parse(dbValue) : dbValue;
+    }
+
+    buildVectorSimilarity(db: Kysely<Database>, queryVector: number[]): Expression<number> | null {
+        if (!this.vectorEnabled) return null;
+        // <=> 为 pgvector 的余弦距离
+        return sql<number>`1 - (${sql.ref('store_vectors.embedding')} <=> ${JSON.stringify(queryVector)}::vector)`;
     }
 }
@@ -42,14 +42,14 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     buildJsonQuery(
         db: Kysely<Database>,
-        field: 'metadata' | 'interrupts',
+        field: 'metadata' | 'interrupts' | 'value' | 'values',
         key: string,
         value: any,
     ): Expression<SqlBool> {
-        // SQLite 使用 json_extract 函数
-        return sql<boolean>`json_extract(${sql.ref(field)}, ${sql.lit('$.' + key)}) = ${sql.lit(
+        // SQLite 使用 json_extract 函数，两侧都取出 JSON 值再比较，字符串不会带引号
+        return sql<boolean>`json_extract(${sql.ref(field)}, ${sql.lit('$.' + key)}) = json_extract(${sql.lit(
             JSON.stringify(value),
-        )}`;
+        )}, '$')`;
     }
 
     now(): string {
@@ -81,9 +81,94 @@ export class SQLiteAdapter implements DatabaseAdapter {
                 status TEXT NOT NULL DEFAULT 'pending',
                 metadata TEXT NOT NULL DEFAULT '{}',
                 multitask_strategy TEXT NOT NULL DEFAULT 'reject',
+                kwargs TEXT,
                 FOREIGN KEY (thread_id) REFERENCES threads(thread_id) ON DELETE CASCADE
             )
         `.execute(db);
+
+        // 旧版本创建的 runs 表没有 kwargs 列
+        const runColumns = await sql<{ name: string }>`PRAGMA table_info(runs)`.execute(db);
+        if (!runColumns.rows.some((column) => column.name === 'kwargs')) {
+            await sql`ALTER TABLE runs ADD COLUMN kwargs TEXT`.execute(db);
+        }
+
+        // 创建 crons 表，thread_id 为空时每次触发都会创建新的 thread
+        await sql`
+            CREATE TABLE IF NOT EXISTS crons (
+                cron_id TEXT PRIMARY KEY,
+                assistant_id TEXT NOT NULL,
+                thread_id TEXT,
+                user_id TEXT,
+                schedule TEXT NOT NULL,
+                payload TEXT NOT NULL DEFAULT '{}',
+                metadata TEXT NOT NULL DEFAULT '{}',
+                end_time TEXT,
+                next_run_date TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 webhook_deliveries 表，记录 run 结束后 webhook 的投递结果
+        await sql`
+            CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                delivery_id TEXT PRIMARY KEY,
+                run_id TEXT NOT NULL,
+                thread_id TEXT NOT NULL,
+                url TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                response_status INTEGER,
+                error TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 assistants 表
+        await sql`
+            CREATE TABLE IF NOT EXISTS assistants (
+                assistant_id TEXT PRIMARY KEY,
+                graph_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                description TEXT,
+                config TEXT NOT NULL DEFAULT '{}',
+                context TEXT NOT NULL DEFAULT '{}',
+                metadata TEXT NOT NULL DEFAULT '{}',
+                version INTEGER NOT NULL DEFAULT 1,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            )
+        `.execute(db);
+
+        // 创建 assistant_versions 表
+        await sql`
+            CREATE TABLE IF NOT EXISTS assistant_versions (
+                assistant_id TEXT NOT NULL,
+                version INTEGER NOT NULL,
+                graph_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                description TEXT,
+                config TEXT NOT NULL DEFAULT '{}',
+                context TEXT NOT NULL DEFAULT '{}',
+                metadata TEXT NOT NULL DEFAULT '{}',
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (assistant_id, version),
+                FOREIGN KEY (assistant_id) REFERENCES assistants(assistant_id) ON DELETE CASCADE
+            )
+        `.execute(db);
+
+        // 创建 store_items 表，namespace 以 '.' 拼接后存储
+        await sql`
+            CREATE TABLE IF NOT EXISTS store_items (
+                namespace TEXT NOT NULL,
+                key TEXT NOT NULL,
+                value TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                PRIMARY KEY (namespace, key)
+            )
+        `.execute(db);
     }
 
     async createIndexes(db: Kysely<Database>): Promise<void> {
@@ -92,5 +177,40 @@ export class SQLiteAdapter implements DatabaseAdapter {
         await sql`CREATE INDEX IF NOT EXISTS idx_threads_updated_at ON threads(updated_at)`.execute(db);
         await sql`CREATE INDEX IF NOT EXISTS idx_runs_thread_id ON runs(thread_id)`.execute(db);
         await sql`CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status)`.execute(db);
+        // 调度器按状态与计划开始时间查找可以执行的 run
+        await sql`CREATE INDEX IF NOT EXISTS idx_runs_status_created_at ON runs(status, created_at)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_crons_next_run_date ON crons(next_run_date)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_crons_thread_id ON crons(thread_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_run_id ON webhook_deliveries(run_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_assistants_graph_id ON assistants(graph_id)`.execute(db);
+        await sql`CREATE INDEX IF NOT EXISTS idx_store_items_updated_at ON store_items(updated_at)`.execute(db);
+    }
+
+    async createVectorTables(db: Kysely<Database>, dims: number): Promise<void> {
+        // SQLite 没有向量类型，embedding 以 JSON 数组的形式存储
+        await sql`
+            CREATE TABLE IF NOT EXISTS store_vectors (
+                namespace TEXT NOT NULL,
+                key TEXT NOT NULL,
+                field_name TEXT NOT NULL,
+                embedding TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (namespace, key, field_name)
+            )
+        `.execute(db);
+    }
+
+    vectorToDb(vector: number[]): string {
+        return JSON.stringify(vector);
+    }
+
+    dbToVector(dbValue: any): number[] {
+        return typeof dbValue === 'string' ? JSON.parse(dbValue) : dbValue;
+    }
+
+    buildVectorSimilarity(db: Kysely<Database>, queryVector: number[]): Expression<number> | null {
+        // SQLite 不支持向量运算，由 Store 在内存中计算余弦相似度
+        return null;
     }
 }
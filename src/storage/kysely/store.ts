@@ -0,0 +1,267 @@
+import { Expression, Kysely, SqlBool, sql } from 'kysely';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import {
+    BaseStore,
+    GetOperation,
+    Item,
+    ListNamespacesOperation,
+    MatchCondition,
+    Operation,
+    OperationResults,
+    PutOperation,
+    SearchItem,
+    SearchOperation,
+} from '@langchain/langgraph-checkpoint';
+import { Database } from './types';
+import { DatabaseAdapter } from './adapter';
+import { cosineSimilarity, extractIndexTexts, StoreIndexConfig, toEmbeddings } from '../store_index';
+
+const NAMESPACE_SEPARATOR = '.';
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const namespacePrefixQuery = (
+    column: 'namespace' | 'store_items.namespace',
+    namespacePrefix: string[],
+): Expression<SqlBool> => {
+    const prefix = namespacePrefix.join(NAMESPACE_SEPARATOR);
+    return sql<boolean>`(${sql.ref(column)} = ${prefix} OR ${sql.ref(column)} LIKE ${
+        escapeLike(prefix) + NAMESPACE_SEPARATOR + '%'
+    } ESCAPE '\\')`;
+};
+
+const itemId = (namespace: string, key: string) => JSON.stringify([namespace, key]);
+
+const matchNamespace = ({ matchType, path }: MatchCondition, namespace: string[]) => {
+    if (path.length > namespace.length) return false;
+    const offset = matchType === 'suffix' ? namespace.length - path.length : 0;
+    return path.every((label, index) => label === '*' || namespace[offset + index] === label);
+};
+
+/**
+ * 使用 Kysely 实现的 Store，供图通过 config.store 读写跨 thread 的长期记忆
+ * namespace 的各级标签以 '.' 拼接后存储，标签本身不允许包含 '.'
+ * 配置 index 后，写入的 item 会按字段生成 embedding，search 时可以传入 query 做语义检索
+ */
+export class KyselyStore extends BaseStore {
+    private db: Kysely<Database>;
+    private adapter: DatabaseAdapter;
+    private index?: StoreIndexConfig;
+    private embeddings?: EmbeddingsInterface;
+
+    constructor(adapter: DatabaseAdapter, options?: { index?: StoreIndexConfig }) {
+        super();
+        this.db = adapter.db;
+        this.adapter = adapter;
+        this.index = options?.index;
+        this.embeddings = options?.index ? toEmbeddings(options.index.embed) : undefined;
+    }
+
+    async setup(): Promise<void> {
+        await this.adapter.createTables(this.db);
+        await this.adapter.createIndexes(this.db);
+        if (this.index) {
+            await this.adapter.createVectorTables(this.db, this.index.dims);
+        }
+    }
+
+    async batch<Op extends Operation[]>(operations: Op): Promise<OperationResults<Op>> {
+        const results: unknown[] = [];
+        for (const op of operations) {
+            if ('value' in op) {
+                results.push(await this.putOperation(op));
+            } else if ('namespacePrefix' in op) {
+                results.push(await this.searchOperation(op));
+            } else if ('key' in op) {
+                results.push(await this.getOperation(op));
+            } else {
+                results.push(await this.listNamespacesOperation(op));
+            }
+        }
+        return results as OperationResults<Op>;
+    }
+
+    private async getOperation(op: GetOperation): Promise<Item | null> {
+        const row = await this.db
+            .selectFrom('store_items')
+            .selectAll()
+            .where('namespace', '=', op.namespace.join(NAMESPACE_SEPARATOR))
+            .where('key', '=', op.key)
+            .executeTakeFirst();
+        return row ? this.toItem(row) : null;
+    }
+
+    private async putOperation(op: PutOperation): Promise<void> {
+        const namespace = op.namespace.join(NAMESPACE_SEPARATOR);
+        // 先生成 embedding，避免写入 item 后 embedding 失败导致索引不一致
+        const vectors = await this.embedOperation(op);
+
+        await this.db.transaction().execute(async (trx) => {
+            if (this.index) {
+                await trx
+                    .deleteFrom('store_vectors')
+                    .where('namespace', '=', namespace)
+                    .where('key', '=', op.key)
+                    .execute();
+            }
+
+            if (op.value === null) {
+                await trx
+                    .deleteFrom('store_items')
+                    .where('namespace', '=', namespace)
+                    .where('key', '=', op.key)
+                    .execute();
+                return;
+            }
+
+            const now = this.adapter.dateToDb(new Date());
+            await trx
+                .insertInto('store_items')
+                .values({
+                    namespace,
+                    key: op.key,
+                    value: this.adapter.jsonToDb(op.value),
+                    created_at: now,
+                    updated_at: now,
+                })
+                .onConflict((oc) =>
+                    oc.columns(['namespace', 'key']).doUpdateSet({
+                        value: this.adapter.jsonToDb(op.value),
+                        updated_at: now,
+                    }),
+                )
+                .execute();
+
+            if (vectors.length > 0) {
+                await trx
+                    .insertInto('store_vectors')
+                    .values(
+                        vectors.map(([fieldName, embedding]) => ({
+                            namespace,
+                            key: op.key,
+                            field_name: fieldName,
+                            embedding: this.adapter.vectorToDb(embedding),
+                            created_at: now,
+                        })),
+                    )
+                    .execute();
+            }
+        });
+    }
+
+    /**
+     * 按 index 配置为写入的 item 生成 embedding，返回 [字段路径, 向量] 列表
+     */
+    private async embedOperation(op: PutOperation): Promise<[string, number[]][]> {
+        if (!this.index || !this.embeddings || op.value === null || op.index === false) return [];
+        const texts = extractIndexTexts(op.value, op.index ?? this.index.fields ?? ['$']);
+        if (texts.length === 0) return [];
+        const embeddings = await this.embeddings.embedDocuments(texts.map(([, text]) => text));
+        return texts.map(([fieldName], index) => [fieldName, embeddings[index]]);
+    }
+
+    private async searchOperation(op: SearchOperation): Promise<SearchItem[]> {
+        if (op.query && this.embeddings) {
+            return this.vectorSearchOperation(op, await this.embeddings.embedQuery(op.query));
+        }
+
+        const rows = await this.filterItems(op)
+            .orderBy('updated_at', 'desc')
+            .limit(op.limit ?? 10)
+            .offset(op.offset ?? 0)
+            .execute();
+        return rows.map((row) => this.toItem(row));
+    }
+
+    /**
+     * 按 namespace 前缀和 value 过滤 store_items
+     */
+    private filterItems(op: SearchOperation) {
+        let queryBuilder = this.db.selectFrom('store_items').selectAll('store_items');
+
+        if (op.namespacePrefix.length > 0) {
+            queryBuilder = queryBuilder.where(namespacePrefixQuery('store_items.namespace', op.namespacePrefix));
+        }
+
+        if (op.filter) {
+            for (const [key, value] of Object.entries(op.filter)) {
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'value', key, value) as any);
+            }
+        }
+
+        return queryBuilder;
+    }
+
+    /**
+     * 按与查询向量的余弦相似度排序，一个 item 有多个向量时取最高分，没有向量的 item 排在最后
+     */
+    private async vectorSearchOperation(op: SearchOperation, queryVector: number[]): Promise<SearchItem[]> {
+        const limit = op.limit ?? 10;
+        const offset = op.offset ?? 0;
+
+        const similarity = this.adapter.buildVectorSimilarity(this.db, queryVector);
+        if (similarity) {
+            const rows = await this.filterItems(op)
+                .leftJoin('store_vectors', (join) =>
+                    join
+                        .onRef('store_vectors.namespace', '=', 'store_items.namespace')
+                        .onRef('store_vectors.key', '=', 'store_items.key'),
+                )
+                .select((eb) => eb.fn.max(similarity).as('score'))
+                .groupBy(['store_items.namespace', 'store_items.key'])
+                .orderBy('score', (ob) => ob.desc().nullsLast())
+                .limit(limit)
+                .offset(offset)
+                .execute();
+            return rows.map((row) => ({ ...this.toItem(row), score: row.score ?? undefined }));
+        }
+
+        // 数据库不支持向量运算时，取出候选 item 的向量在内存中计算
+        const rows = await this.filterItems(op).execute();
+        let vectorQuery = this.db.selectFrom('store_vectors').select(['namespace', 'key', 'embedding']);
+        if (op.namespacePrefix.length > 0) {
+            vectorQuery = vectorQuery.where(namespacePrefixQuery('namespace', op.namespacePrefix));
+        }
+        const scores = new Map<string, number>();
+        for (const vector of await vectorQuery.execute()) {
+            const id = itemId(vector.namespace, vector.key);
+            const score = cosineSimilarity(queryVector, this.adapter.dbToVector(vector.embedding));
+            scores.set(id, Math.max(score, scores.get(id) ?? -Infinity));
+        }
+
+        return rows
+            .map((row) => ({ ...this.toItem(row), score: scores.get(itemId(row.namespace, row.key)) }))
+            .sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity) || 0)
+            .slice(offset, offset + limit);
+    }
+
+    private async listNamespacesOperation(op: ListNamespacesOperation): Promise<string[][]> {
+        const rows = await this.db.selectFrom('store_items').select('namespace').distinct().execute();
+
+        let namespaces = rows
+            .map((row) => row.namespace.split(NAMESPACE_SEPARATOR))
+            .filter((namespace) =>
+                (op.matchConditions ?? []).every((condition) => matchNamespace(condition, namespace)),
+            );
+
+        if (op.maxDepth !== undefined) {
+            const truncated = new Set(
+                namespaces.map((namespace) => namespace.slice(0, op.maxDepth).join(NAMESPACE_SEPARATOR)),
+            );
+            namespaces = [...truncated].map((namespace) => namespace.split(NAMESPACE_SEPARATOR));
+        }
+
+        namespaces.sort((a, b) => a.join(NAMESPACE_SEPARATOR).localeCompare(b.join(NAMESPACE_SEPARATOR)));
+        return namespaces.slice(op.offset, op.offset + op.limit);
+    }
+
+    private toItem(row: any): Item {
+        return {
+            namespace: row.namespace.split(NAMESPACE_SEPARATOR),
+            key: row.key,
+            value: this.adapter.dbToJson(row.value),
+            createdAt: this.adapter.dbToDate(row.created_at),
+            updatedAt: this.adapter.dbToDate(row.updated_at),
+        };
+    }
+}
@@ -1,11 +1,27 @@
-import { Kysely } from 'kysely';
-import { BaseThreadsManager } from '../../threads/index.js';
-import { Command, Config, Metadata, OnConflictBehavior, Run, Thread, ThreadStatus } from '@langgraph-js/sdk';
-import { RunStatus, SortOrder, ThreadSortBy } from '../../types';
+import { Kysely, SelectQueryBuilder, sql } from 'kysely';
+import { BaseThreadsManager, ThreadSearchFilter } from '../../threads/index.js';
+import { Config, Cron, Metadata, OnConflictBehavior, Run, Thread, ThreadState, ThreadStatus } from '@langgraph-js/sdk';
+import {
+    CronSortBy,
+    MultitaskStrategy,
+    RunKwargs,
+    RunStatus,
+    SortOrder,
+    ThreadSelectField,
+    ThreadSortBy,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+} from '../../types';
 import { Database } from './types';
 import { DatabaseAdapter } from './adapter';
-import { getGraph } from '../../utils/getGraph.js';
-import { serialiseAsDict } from '../../graph/stream.js';
+import {
+    CheckpointPayload,
+    getThreadHistory,
+    getThreadState,
+    ThreadStateUpdatePayload,
+    updateThreadState,
+} from '../../graph/state.js';
+import { HTTPError } from '../../utils/errors.js';
 
 /**
  * 使用 Kysely 实现的统一 ThreadsManager
@@ -31,7 +47,6 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         threadId?: string;
         ifExists?: OnConflictBehavior;
         graphId?: string;
-        supersteps?: Array<{ updates: Array<{ values: unknown; command?: Command; asNode: string }> }>;
     }): Promise<Thread<ValuesType>> {
         const threadId = payload?.threadId || crypto.randomUUID();
 
@@ -49,7 +64,9 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         }
 
         const now = new Date();
-        const metadata = payload?.metadata || {};
+        const metadata = payload?.graphId
+            ? { ...payload.metadata, graph_id: payload.graphId }
+            : payload?.metadata || {};
         const interrupts = {};
 
         // 插入数据
@@ -66,7 +83,7 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             })
             .execute();
 
-        return {
+        const thread: Thread<ValuesType> = {
             thread_id: threadId,
             created_at: now.toISOString(),
             updated_at: now.toISOString(),
@@ -75,42 +92,82 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             values: null as unknown as ValuesType,
             interrupts,
         };
-    }
-
-    async search(query?: {
-        metadata?: Metadata;
-        limit?: number;
-        offset?: number;
-        status?: ThreadStatus;
-        sortBy?: ThreadSortBy;
-        sortOrder?: SortOrder;
-        withoutDetails?: boolean;
-    }): Promise<Thread<ValuesType>[]> {
-        let queryBuilder = this.db.selectFrom('threads').selectAll();
 
-        // 根据 without_details 决定是否选择 values 和 interrupt 字段
-        if (query?.withoutDetails) {
-            queryBuilder = this.db
-                .selectFrom('threads')
-                .select(['thread_id', 'created_at', 'updated_at', 'metadata', 'status']) as any;
-        }
+        return thread;
+    }
 
+    /**
+     * 添加 search 与 count 共用的过滤条件
+     */
+    private applyThreadFilter<QB extends SelectQueryBuilder<Database, 'threads', any>>(
+        queryBuilder: QB,
+        query?: ThreadSearchFilter,
+    ): QB {
         // 添加状态过滤
         if (query?.status) {
-            queryBuilder = queryBuilder.where('status', '=', query.status);
+            queryBuilder = queryBuilder.where('status', '=', query.status) as QB;
+        }
+
+        // 添加 thread_id 过滤，空列表不匹配任何 thread
+        if (query?.ids) {
+            queryBuilder = (
+                query.ids.length ? queryBuilder.where('thread_id', 'in', query.ids) : queryBuilder.where(sql.lit(false))
+            ) as QB;
         }
 
         // 添加 metadata 过滤
         if (query?.metadata) {
             for (const [key, value] of Object.entries(query.metadata)) {
-                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'metadata', key, value) as any);
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'metadata', key, value)) as QB;
             }
         }
 
+        // 添加 values 过滤，键为 JSON 路径
+        if (query?.values) {
+            for (const [path, value] of Object.entries(query.values)) {
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'values', path, value)) as QB;
+            }
+        }
+        return queryBuilder;
+    }
+
+    /**
+     * 将数据库行转换为 Thread，只转换查询中选择的字段
+     */
+    private toThread(row: Record<string, any>): Thread<ValuesType> {
+        const thread: Record<string, unknown> = {};
+        if ('thread_id' in row) thread.thread_id = row.thread_id;
+        if ('created_at' in row) thread.created_at = this.adapter.dbToDate(row.created_at).toISOString();
+        if ('updated_at' in row) thread.updated_at = this.adapter.dbToDate(row.updated_at).toISOString();
+        if ('metadata' in row) thread.metadata = this.adapter.dbToJson(row.metadata);
+        if ('status' in row) thread.status = row.status as ThreadStatus;
+        if ('values' in row) thread.values = row.values ? this.adapter.dbToJson(row.values) : null;
+        if ('interrupts' in row) thread.interrupts = this.adapter.dbToJson(row.interrupts);
+        return thread as unknown as Thread<ValuesType>;
+    }
+
+    async search(
+        query?: ThreadSearchFilter & {
+            limit?: number;
+            offset?: number;
+            sortBy?: ThreadSortBy;
+            sortOrder?: SortOrder;
+            withoutDetails?: boolean;
+            select?: ThreadSelectField[];
+        },
+    ): Promise<Thread<ValuesType>[]> {
+        // select 指定返回字段；without_details 时不选择 values 和 interrupts 字段
+        const columns: ThreadSelectField[] = query?.select?.length
+            ? query.select
+            : query?.withoutDetails
+              ? ['thread_id', 'created_at', 'updated_at', 'metadata', 'status']
+              : ['thread_id', 'created_at', 'updated_at', 'metadata', 'status', 'values', 'interrupts'];
+        let queryBuilder = this.applyThreadFilter(this.db.selectFrom('threads').select(columns), query);
+
         // 添加排序
         if (query?.sortBy) {
             const order = query.sortOrder === 'desc' ? 'desc' : 'asc';
-            queryBuilder = queryBuilder.orderBy(query.sortBy as any, order);
+            queryBuilder = queryBuilder.orderBy(query.sortBy, order);
         }
 
         // 添加分页
@@ -123,15 +180,22 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
 
         const rows = await queryBuilder.execute();
 
-        return rows.map((row) => ({
-            thread_id: row.thread_id,
-            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
-            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
-            metadata: this.adapter.dbToJson(row.metadata),
-            status: row.status as ThreadStatus,
-            values: row.values ? this.adapter.dbToJson(row.values) : (null as unknown as ValuesType),
-            interrupts: this.adapter.dbToJson(row.interrupts),
-        }));
+        return rows.map((row) => {
+            const thread = this.toThread(row);
+            // 保持原有行为：without_details 时 values 为 null
+            if (!query?.select?.length && query?.withoutDetails) {
+                thread.values = null as unknown as ValuesType;
+            }
+            return thread;
+        });
+    }
+
+    async count(query?: ThreadSearchFilter): Promise<number> {
+        const row = await this.applyThreadFilter(
+            this.db.selectFrom('threads').select((eb) => eb.fn.countAll().as('count')),
+            query,
+        ).executeTakeFirst();
+        return Number(row?.count ?? 0);
     }
 
     async get(threadId: string): Promise<Thread<ValuesType>> {
@@ -145,15 +209,7 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             throw new Error(`Thread with ID ${threadId} not found.`);
         }
 
-        return {
-            thread_id: row.thread_id,
-            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
-            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
-            metadata: this.adapter.dbToJson(row.metadata),
-            status: row.status as ThreadStatus,
-            values: row.values ? this.adapter.dbToJson(row.values) : (null as unknown as ValuesType),
-            interrupts: this.adapter.dbToJson(row.interrupts),
-        };
+        return this.toThread(row);
     }
 
     async set(threadId: string, thread: Partial<Thread<ValuesType>>): Promise<void> {
@@ -192,7 +248,7 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         await this.db.updateTable('threads').set(updates).where('thread_id', '=', threadId).execute();
     }
 
-    async updateState(threadId: string, thread: Partial<Thread<ValuesType>>): Promise<Pick<Config, 'configurable'>> {
+    async updateState(threadId: string, payload: ThreadStateUpdatePayload): Promise<Pick<Config, 'configurable'>> {
         // 获取线程信息
         const targetThread = await this.get(threadId);
 
@@ -200,38 +256,116 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             throw new Error(`Thread with ID ${threadId} is busy, can't update state.`);
         }
 
-        if (!targetThread.metadata?.graph_id) {
-            throw new Error(`Thread with ID ${threadId} has no graph_id.`);
-        }
+        const { config, values } = await updateThreadState(targetThread, payload);
+        await this.set(threadId, { values });
 
-        const graphId = targetThread.metadata?.graph_id as string;
-        const config = {
-            configurable: {
-                thread_id: threadId,
-                graph_id: graphId,
-            },
-        };
+        return config;
+    }
 
-        const graph = await getGraph(graphId, config);
-        const nextConfig = await graph.updateState(config, thread.values);
-        const graphState = await graph.getState(config);
-        await this.set(threadId, { values: JSON.parse(serialiseAsDict(graphState.values)) as ValuesType });
+    async getState(
+        threadId: string,
+        checkpoint?: CheckpointPayload | string,
+        options?: { subgraphs?: boolean },
+    ): Promise<ThreadState<ValuesType>> {
+        const thread = await this.get(threadId);
+        return getThreadState(thread, checkpoint, options);
+    }
 
-        return nextConfig;
+    async getHistory(
+        threadId: string,
+        options?: { limit?: number; before?: Config | string; metadata?: Metadata; checkpoint?: CheckpointPayload },
+    ): Promise<ThreadState<ValuesType>[]> {
+        const thread = await this.get(threadId);
+        return getThreadHistory(thread, options);
     }
 
     async delete(threadId: string): Promise<void> {
-        const result = await this.db.deleteFrom('threads').where('thread_id', '=', threadId).executeTakeFirst();
+        // SQLite 默认不启用外键约束，runs、crons 和 webhook 推送记录需要显式删除
+        const result = await this.db.transaction().execute(async (trx) => {
+            await trx.deleteFrom('runs').where('thread_id', '=', threadId).execute();
+            await trx.deleteFrom('crons').where('thread_id', '=', threadId).execute();
+            await trx.deleteFrom('webhook_deliveries').where('thread_id', '=', threadId).execute();
+            return trx.deleteFrom('threads').where('thread_id', '=', threadId).executeTakeFirst();
+        });
 
         if (result.numDeletedRows === 0n) {
             throw new Error(`Thread with ID ${threadId} not found.`);
         }
     }
 
-    async createRun(threadId: string, assistantId: string, payload?: { metadata?: Metadata }): Promise<Run> {
+    async copy(threadId: string): Promise<Thread<ValuesType>> {
+        const thread = await this.get(threadId);
+        const now = new Date();
+        const copied: Thread<ValuesType> = {
+            ...thread,
+            thread_id: crypto.randomUUID(),
+            created_at: now.toISOString(),
+            updated_at: now.toISOString(),
+            status: thread.status === 'busy' ? 'idle' : thread.status,
+        };
+
+        await this.db
+            .insertInto('threads')
+            .values({
+                thread_id: copied.thread_id,
+                created_at: this.adapter.dateToDb(now) as any,
+                updated_at: this.adapter.dateToDb(now) as any,
+                metadata: this.adapter.jsonToDb(copied.metadata) as any,
+                status: copied.status,
+                values: copied.values ? (this.adapter.jsonToDb(copied.values) as any) : null,
+                interrupts: this.adapter.jsonToDb(copied.interrupts) as any,
+            })
+            .execute();
+
+        return copied;
+    }
+
+    async update(threadId: string, payload: { metadata?: Metadata }): Promise<Thread<ValuesType>> {
+        const thread = await this.get(threadId);
+        await this.set(threadId, { metadata: { ...thread.metadata, ...payload.metadata } });
+        return this.get(threadId);
+    }
+
+    async prune(query: { before?: string; status?: ThreadStatus; metadata?: Metadata }): Promise<string[]> {
+        let queryBuilder = this.db.selectFrom('threads').select('thread_id').where('status', '!=', 'busy');
+
+        if (query.before) {
+            queryBuilder = queryBuilder.where('updated_at', '<', this.adapter.dateToDb(new Date(query.before)) as any);
+        }
+
+        if (query.status) {
+            queryBuilder = queryBuilder.where('status', '=', query.status);
+        }
+
+        if (query.metadata) {
+            for (const [key, value] of Object.entries(query.metadata)) {
+                queryBuilder = queryBuilder.where(this.adapter.buildJsonQuery(this.db, 'metadata', key, value) as any);
+            }
+        }
+
+        const rows = await queryBuilder.execute();
+        for (const row of rows) {
+            await this.delete(row.thread_id);
+        }
+        return rows.map((row) => row.thread_id);
+    }
+
+    async createRun(
+        threadId: string,
+        assistantId: string,
+        payload?: {
+            metadata?: Metadata;
+            multitaskStrategy?: MultitaskStrategy;
+            afterSeconds?: number;
+            kwargs?: RunKwargs;
+        },
+    ): Promise<Run> {
         const runId = crypto.randomUUID();
         const now = new Date();
+        // 延迟执行的 run 以计划开始的时间作为 created_at
+        const createdAt = new Date(now.getTime() + (payload?.afterSeconds ?? 0) * 1000);
         const metadata = payload?.metadata ?? {};
+        const multitaskStrategy = payload?.multitaskStrategy ?? 'reject';
 
         await this.db
             .insertInto('runs')
@@ -239,11 +373,12 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
                 run_id: runId,
                 thread_id: threadId,
                 assistant_id: assistantId,
-                created_at: this.adapter.dateToDb(now) as any,
+                created_at: this.adapter.dateToDb(createdAt) as any,
                 updated_at: this.adapter.dateToDb(now) as any,
                 status: 'pending',
                 metadata: this.adapter.jsonToDb(metadata) as any,
-                multitask_strategy: 'reject',
+                multitask_strategy: multitaskStrategy,
+                kwargs: payload?.kwargs ? this.adapter.jsonToDb(payload.kwargs) : null,
             })
             .execute();
 
@@ -251,11 +386,11 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             run_id: runId,
             thread_id: threadId,
             assistant_id: assistantId,
-            created_at: now.toISOString(),
+            created_at: createdAt.toISOString(),
             updated_at: now.toISOString(),
             status: 'pending',
             metadata,
-            multitask_strategy: 'reject',
+            multitask_strategy: multitaskStrategy,
         };
     }
 
@@ -281,17 +416,17 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         }
 
         const rows = await queryBuilder.execute();
+        return rows.map((row) => this.toRun(row));
+    }
 
-        return rows.map((row) => ({
-            run_id: row.run_id,
-            thread_id: row.thread_id,
-            assistant_id: row.assistant_id,
-            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
-            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
-            status: row.status as RunStatus,
-            metadata: this.adapter.dbToJson(row.metadata),
-            multitask_strategy: row.multitask_strategy as 'reject',
-        }));
+    async getRun(runId: string): Promise<Run> {
+        const row = await this.db.selectFrom('runs').selectAll().where('run_id', '=', runId).executeTakeFirst();
+
+        if (!row) {
+            throw new HTTPError(404, `Run with ID ${runId} not found.`);
+        }
+
+        return this.toRun(row);
     }
 
     async updateRun(runId: string, run: Partial<Run>): Promise<void> {
@@ -325,4 +460,355 @@ export class KyselyThreadsManager<ValuesType = unknown> implements BaseThreadsMa
 
         await this.db.updateTable('runs').set(updates).where('run_id', '=', runId).execute();
     }
+
+    async deleteRun(runId: string): Promise<void> {
+        await this.db.deleteFrom('runs').where('run_id', '=', runId).execute();
+    }
+
+    async listDueRuns(now: string, limit: number): Promise<Run[]> {
+        const rows = await this.db
+            .selectFrom('runs as r')
+            .selectAll('r')
+            .where('r.status', '=', 'pending')
+            .where('r.kwargs', 'is not', null)
+            .where('r.created_at', '<=', this.adapter.dateToDb(new Date(now)))
+            // 同一 thread 上有 running 的 run，或者有排在前面的 pending run 时需要继续等待，与 isRunBefore 的顺序一致
+            .where(({ not, exists, selectFrom }) =>
+                not(
+                    exists(
+                        selectFrom('runs as o')
+                            .select('o.run_id')
+                            .whereRef('o.thread_id', '=', 'r.thread_id')
+                            .whereRef('o.run_id', '!=', 'r.run_id')
+                            .where((eb) =>
+                                eb.or([
+                                    eb('o.status', '=', 'running'),
+                                    eb.and([
+                                        eb('o.status', '=', 'pending'),
+                                        eb.or([
+                                            eb('o.created_at', '<', eb.ref('r.created_at')),
+                                            eb.and([
+                                                eb('o.created_at', '=', eb.ref('r.created_at')),
+                                                eb('o.run_id', '<', eb.ref('r.run_id')),
+                                            ]),
+                                        ]),
+                                    ]),
+                                ]),
+                            ),
+                    ),
+                ),
+            )
+            .orderBy('r.created_at', 'asc')
+            .orderBy('r.run_id', 'asc')
+            .limit(limit)
+            .execute();
+        return rows.map((row) => this.toRun(row));
+    }
+
+    async claimRun(runId: string): Promise<RunKwargs | null> {
+        // 以状态作为版本号做条件更新，并发的实例中只有一个能更新成功
+        const result = await this.db
+            .updateTable('runs')
+            .set({ status: 'running', updated_at: this.adapter.dateToDb(new Date()) })
+            .where('run_id', '=', runId)
+            .where('status', '=', 'pending')
+            .where('kwargs', 'is not', null)
+            .executeTakeFirst();
+        if (result.numUpdatedRows === 0n) return null;
+        const row = await this.db.selectFrom('runs').select('kwargs').where('run_id', '=', runId).executeTakeFirst();
+        return row?.kwargs ? this.adapter.dbToJson(row.kwargs) : null;
+    }
+
+    async createCron(payload: {
+        assistantId: string;
+        threadId?: string;
+        schedule: string;
+        endTime?: string;
+        payload: Record<string, unknown>;
+        metadata?: Metadata;
+        nextRunDate: string | null;
+    }): Promise<Cron> {
+        const cronId = crypto.randomUUID();
+        const now = new Date();
+
+        await this.db
+            .insertInto('crons')
+            .values({
+                cron_id: cronId,
+                assistant_id: payload.assistantId,
+                thread_id: payload.threadId ?? null,
+                user_id: null,
+                schedule: payload.schedule,
+                payload: this.adapter.jsonToDb(payload.payload),
+                metadata: this.adapter.jsonToDb(payload.metadata ?? {}),
+                end_time: payload.endTime ? this.adapter.dateToDb(new Date(payload.endTime)) : null,
+                next_run_date: payload.nextRunDate ? this.adapter.dateToDb(new Date(payload.nextRunDate)) : null,
+                created_at: this.adapter.dateToDb(now),
+                updated_at: this.adapter.dateToDb(now),
+            })
+            .execute();
+
+        return this.getCron(cronId);
+    }
+
+    async getCron(cronId: string): Promise<Cron> {
+        const row = await this.db.selectFrom('crons').selectAll().where('cron_id', '=', cronId).executeTakeFirst();
+
+        if (!row) {
+            throw new HTTPError(404, `Cron with ID ${cronId} not found.`);
+        }
+
+        return this.toCron(row);
+    }
+
+    async updateCron(
+        cronId: string,
+        payload: {
+            schedule?: string;
+            endTime?: string | null;
+            payload?: Record<string, unknown>;
+            metadata?: Metadata;
+            nextRunDate?: string | null;
+        },
+    ): Promise<Cron> {
+        const updates: any = {
+            updated_at: this.adapter.dateToDb(new Date()),
+        };
+
+        if (payload.schedule !== undefined) {
+            updates.schedule = payload.schedule;
+        }
+
+        if (payload.endTime !== undefined) {
+            updates.end_time = payload.endTime ? this.adapter.dateToDb(new Date(payload.endTime)) : null;
+        }
+
+        if (payload.payload !== undefined) {
+            updates.payload = this.adapter.jsonToDb(payload.payload);
+        }
+
+        if (payload.metadata !== undefined) {
+            updates.metadata = this.adapter.jsonToDb(payload.metadata);
+        }
+
+        if (payload.nextRunDate !== undefined) {
+            updates.next_run_date = payload.nextRunDate ? this.adapter.dateToDb(new Date(payload.nextRunDate)) : null;
+        }
+
+        const result = await this.db.updateTable('crons').set(updates).where('cron_id', '=', cronId).executeTakeFirst();
+
+        if (result.numUpdatedRows === 0n) {
+            throw new HTTPError(404, `Cron with ID ${cronId} not found.`);
+        }
+
+        return this.getCron(cronId);
+    }
+
+    async deleteCron(cronId: string): Promise<void> {
+        const result = await this.db.deleteFrom('crons').where('cron_id', '=', cronId).executeTakeFirst();
+
+        if (result.numDeletedRows === 0n) {
+            throw new HTTPError(404, `Cron with ID ${cronId} not found.`);
+        }
+    }
+
+    async searchCrons(query?: {
+        assistantId?: string;
+        threadId?: string;
+        limit?: number;
+        offset?: number;
+        sortBy?: CronSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Cron[]> {
+        let queryBuilder = this.db.selectFrom('crons').selectAll();
+
+        if (query?.assistantId) {
+            queryBuilder = queryBuilder.where('assistant_id', '=', query.assistantId);
+        }
+
+        if (query?.threadId) {
+            queryBuilder = queryBuilder.where('thread_id', '=', query.threadId);
+        }
+
+        const order = query?.sortOrder === 'asc' ? 'asc' : 'desc';
+        queryBuilder = queryBuilder.orderBy(query?.sortBy ?? 'created_at', order);
+
+        if (query?.limit !== undefined) {
+            queryBuilder = queryBuilder.limit(query.limit);
+            if (query?.offset !== undefined) {
+                queryBuilder = queryBuilder.offset(query.offset);
+            }
+        }
+
+        const rows = await queryBuilder.execute();
+        return rows.map((row) => this.toCron(row));
+    }
+
+    async countCrons(query?: { assistantId?: string; threadId?: string }): Promise<number> {
+        let queryBuilder = this.db.selectFrom('crons').select((eb) => eb.fn.countAll().as('count'));
+
+        if (query?.assistantId) {
+            queryBuilder = queryBuilder.where('assistant_id', '=', query.assistantId);
+        }
+
+        if (query?.threadId) {
+            queryBuilder = queryBuilder.where('thread_id', '=', query.threadId);
+        }
+
+        const row = await queryBuilder.executeTakeFirst();
+        return Number(row?.count ?? 0);
+    }
+
+    async listDueCrons(now: string): Promise<Cron[]> {
+        const rows = await this.db
+            .selectFrom('crons')
+            .selectAll()
+            .where('next_run_date', 'is not', null)
+            .where('next_run_date', '<=', this.adapter.dateToDb(new Date(now)))
+            .orderBy('next_run_date', 'asc')
+            .execute();
+        return rows.map((row) => this.toCron(row));
+    }
+
+    async claimCron(cronId: string, currentRunDate: string, nextRunDate: string | null): Promise<boolean> {
+        // 以 next_run_date 作为版本号做条件更新，并发的实例中只有一个能更新成功
+        const result = await this.db
+            .updateTable('crons')
+            .set({
+                next_run_date: nextRunDate ? this.adapter.dateToDb(new Date(nextRunDate)) : null,
+                updated_at: this.adapter.dateToDb(new Date()),
+            })
+            .where('cron_id', '=', cronId)
+            .where('next_run_date', '=', this.adapter.dateToDb(new Date(currentRunDate)))
+            .executeTakeFirst();
+        return result.numUpdatedRows > 0n;
+    }
+
+    async createWebhookDelivery(payload: { runId: string; threadId: string; url: string }): Promise<WebhookDelivery> {
+        const deliveryId = crypto.randomUUID();
+        const now = new Date();
+
+        await this.db
+            .insertInto('webhook_deliveries')
+            .values({
+                delivery_id: deliveryId,
+                run_id: payload.runId,
+                thread_id: payload.threadId,
+                url: payload.url,
+                status: 'pending',
+                attempts: 0,
+                response_status: null,
+                error: null,
+                created_at: this.adapter.dateToDb(now) as any,
+                updated_at: this.adapter.dateToDb(now) as any,
+            })
+            .execute();
+
+        return {
+            delivery_id: deliveryId,
+            run_id: payload.runId,
+            thread_id: payload.threadId,
+            url: payload.url,
+            status: 'pending',
+            attempts: 0,
+            response_status: null,
+            error: null,
+            created_at: now.toISOString(),
+            updated_at: now.toISOString(),
+        };
+    }
+
+    async updateWebhookDelivery(
+        deliveryId: string,
+        payload: {
+            status: WebhookDeliveryStatus;
+            attempts: number;
+            responseStatus: number | null;
+            error: string | null;
+        },
+    ): Promise<void> {
+        await this.db
+            .updateTable('webhook_deliveries')
+            .set({
+                status: payload.status,
+                attempts: payload.attempts,
+                response_status: payload.responseStatus,
+                error: payload.error,
+                updated_at: this.adapter.dateToDb(new Date()) as any,
+            })
+            .where('delivery_id', '=', deliveryId)
+            .execute();
+    }
+
+    async listWebhookDeliveries(query?: {
+        runId?: string;
+        threadId?: string;
+        status?: WebhookDeliveryStatus;
+        limit?: number;
+        offset?: number;
+    }): Promise<WebhookDelivery[]> {
+        let queryBuilder = this.db.selectFrom('webhook_deliveries').selectAll().orderBy('created_at', 'desc');
+
+        if (query?.runId) {
+            queryBuilder = queryBuilder.where('run_id', '=', query.runId);
+        }
+
+        if (query?.threadId) {
+            queryBuilder = queryBuilder.where('thread_id', '=', query.threadId);
+        }
+
+        if (query?.status) {
+            queryBuilder = queryBuilder.where('status', '=', query.status);
+        }
+
+        if (query?.limit !== undefined) {
+            queryBuilder = queryBuilder.limit(query.limit);
+            if (query?.offset !== undefined) {
+                queryBuilder = queryBuilder.offset(query.offset);
+            }
+        }
+
+        const rows = await queryBuilder.execute();
+        return rows.map((row) => ({
+            delivery_id: row.delivery_id,
+            run_id: row.run_id,
+            thread_id: row.thread_id,
+            url: row.url,
+            status: row.status as WebhookDeliveryStatus,
+            attempts: row.attempts,
+            response_status: row.response_status ?? null,
+            error: row.error ?? null,
+            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
+            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
+        }));
+    }
+
+    private toRun(row: any): Run {
+        return {
+            run_id: row.run_id,
+            thread_id: row.thread_id,
+            assistant_id: row.assistant_id,
+            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
+            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
+            status: row.status as RunStatus,
+            metadata: this.adapter.dbToJson(row.metadata),
+            multitask_strategy: row.multitask_strategy as MultitaskStrategy,
+        };
+    }
+
+    private toCron(row: any): Cron {
+        return {
+            cron_id: row.cron_id,
+            assistant_id: row.assistant_id,
+            thread_id: row.thread_id ?? null,
+            user_id: row.user_id ?? null,
+            schedule: row.schedule,
+            payload: this.adapter.dbToJson(row.payload),
+            metadata: this.adapter.dbToJson(row.metadata),
+            end_time: row.end_time ? this.adapter.dbToDate(row.end_time).toISOString() : null,
+            next_run_date: row.next_run_date ? this.adapter.dbToDate(row.next_run_date).toISOString() : null,
+            created_at: this.adapter.dbToDate(row.created_at).toISOString(),
+            updated_at: this.adapter.dbToDate(row.updated_at).toISOString(),
+        };
+    }
 }
@@ -22,9 +22,85 @@ export interface RunsTable {
     status: string;
     metadata: Record<string, any>;
     multitask_strategy: string;
+    /** 由调度器执行的后台 run 的参数，其余 run 为 null */
+    kwargs: Record<string, any> | null;
+}
+
+export interface CronsTable {
+    cron_id: string;
+    assistant_id: string;
+    thread_id: string | null;
+    user_id: string | null;
+    schedule: string;
+    payload: Record<string, any>;
+    metadata: Record<string, any>;
+    end_time: Date | null;
+    next_run_date: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface WebhookDeliveriesTable {
+    delivery_id: string;
+    run_id: string;
+    thread_id: string;
+    url: string;
+    status: string;
+    attempts: number;
+    response_status: number | null;
+    error: string | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface AssistantsTable {
+    assistant_id: string;
+    graph_id: string;
+    name: string;
+    description: string | null;
+    config: Record<string, any>;
+    context: any;
+    metadata: Record<string, any>;
+    version: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface AssistantVersionsTable {
+    assistant_id: string;
+    version: number;
+    graph_id: string;
+    name: string;
+    description: string | null;
+    config: Record<string, any>;
+    context: any;
+    metadata: Record<string, any>;
+    created_at: Date;
+}
+
+export interface StoreItemsTable {
+    namespace: string;
+    key: string;
+    value: Record<string, any>;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface StoreVectorsTable {
+    namespace: string;
+    key: string;
+    field_name: string;
+    embedding: string;
+    created_at: Date;
 }
 
 export interface Database {
     threads: ThreadsTable;
     runs: RunsTable;
+    crons: CronsTable;
+    webhook_deliveries: WebhookDeliveriesTable;
+    assistants: AssistantsTable;
+    assistant_versions: AssistantVersionsTable;
+    store_items: StoreItemsTable;
+    store_vectors: StoreVectorsTable;
 }
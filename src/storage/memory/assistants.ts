@@ -0,0 +1,166 @@
+import { Assistant, AssistantVersion, Config, Metadata, OnConflictBehavior } from '@langgraph-js/sdk';
+import { BaseAssistantsManager } from '../../assistants/index.js';
+import { AssistantSortBy, SortOrder } from '../../types';
+import { HTTPError } from '../../utils/errors.js';
+import { isJsonEqual } from '../../utils/json.js';
+
+const matchMetadata = (metadata: Metadata, filter?: Metadata) => {
+    if (!filter) return true;
+    return Object.entries(filter).every(([key, value]) => isJsonEqual(metadata?.[key], value));
+};
+
+export class MemoryAssistantsManager implements BaseAssistantsManager {
+    private assistants: Assistant[] = [];
+    private versions: AssistantVersion[] = [];
+    async setup() {
+        return;
+    }
+
+    async create(payload: {
+        graphId: string;
+        assistantId?: string;
+        config?: Config;
+        context?: unknown;
+        metadata?: Metadata;
+        ifExists?: OnConflictBehavior;
+        name?: string;
+        description?: string;
+    }): Promise<Assistant> {
+        const assistantId = payload.assistantId || crypto.randomUUID();
+        const existing = this.assistants.find((a) => a.assistant_id === assistantId);
+        if (existing) {
+            if (payload.ifExists === 'do_nothing') {
+                return existing;
+            }
+            throw new HTTPError(409, `Assistant with ID ${assistantId} already exists.`);
+        }
+
+        const now = new Date().toISOString();
+        const assistant: Assistant = {
+            assistant_id: assistantId,
+            graph_id: payload.graphId,
+            name: payload.name ?? payload.graphId,
+            description: payload.description,
+            config: payload.config ?? {},
+            context: payload.context ?? {},
+            metadata: payload.metadata ?? {},
+            version: 1,
+            created_at: now,
+            updated_at: now,
+        };
+        const { updated_at, ...version } = assistant;
+        this.assistants.push(assistant);
+        this.versions.push(version);
+        return assistant;
+    }
+
+    async get(assistantId: string): Promise<Assistant> {
+        const assistant = this.assistants.find((a) => a.assistant_id === assistantId);
+        if (!assistant) {
+            throw new HTTPError(404, `Assistant with ID ${assistantId} not found.`);
+        }
+        return assistant;
+    }
+
+    async update(
+        assistantId: string,
+        payload: {
+            graphId?: string;
+            config?: Config;
+            context?: unknown;
+            metadata?: Metadata;
+            name?: string;
+            description?: string;
+        },
+    ): Promise<Assistant> {
+        const current = await this.get(assistantId);
+        const latestVersion = Math.max(
+            ...this.versions.filter((v) => v.assistant_id === assistantId).map((v) => v.version),
+        );
+        const now = new Date().toISOString();
+        const next: Assistant = {
+            ...current,
+            graph_id: payload.graphId ?? current.graph_id,
+            name: payload.name ?? current.name,
+            description: payload.description ?? current.description,
+            config: payload.config ?? current.config,
+            context: payload.context ?? current.context,
+            metadata: { ...current.metadata, ...payload.metadata },
+            version: latestVersion + 1,
+            updated_at: now,
+        };
+        const { updated_at, ...version } = next;
+        this.versions.push({ ...version, created_at: now });
+        this.assistants = this.assistants.map((a) => (a.assistant_id === assistantId ? next : a));
+        return next;
+    }
+
+    async delete(assistantId: string): Promise<void> {
+        const initialLength = this.assistants.length;
+        this.assistants = this.assistants.filter((a) => a.assistant_id !== assistantId);
+        if (this.assistants.length === initialLength) {
+            throw new HTTPError(404, `Assistant with ID ${assistantId} not found.`);
+        }
+        this.versions = this.versions.filter((v) => v.assistant_id !== assistantId);
+    }
+
+    async search(query?: {
+        graphId?: string;
+        metadata?: Metadata;
+        limit?: number;
+        offset?: number;
+        sortBy?: AssistantSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Assistant[]> {
+        let filtered = this.filterAssistants(query);
+
+        const sortBy = query?.sortBy ?? 'created_at';
+        const direction = query?.sortOrder === 'asc' ? 1 : -1;
+        filtered = filtered.sort((a, b) => {
+            const aValue = String(a[sortBy] ?? '');
+            const bValue = String(b[sortBy] ?? '');
+            return aValue.localeCompare(bValue) * direction;
+        });
+
+        const offset = query?.offset || 0;
+        const limit = query?.limit || filtered.length;
+        return filtered.slice(offset, offset + limit);
+    }
+
+    async count(query?: { graphId?: string; metadata?: Metadata }): Promise<number> {
+        return this.filterAssistants(query).length;
+    }
+
+    private filterAssistants(query?: { graphId?: string; metadata?: Metadata }): Assistant[] {
+        return this.assistants.filter(
+            (a) => (!query?.graphId || a.graph_id === query.graphId) && matchMetadata(a.metadata, query?.metadata),
+        );
+    }
+
+    async getVersions(
+        assistantId: string,
+        payload?: { metadata?: Metadata; limit?: number; offset?: number },
+    ): Promise<AssistantVersion[]> {
+        const filtered = this.versions
+            .filter((v) => v.assistant_id === assistantId && matchMetadata(v.metadata, payload?.metadata))
+            .sort((a, b) => b.version - a.version);
+        const offset = payload?.offset || 0;
+        const limit = payload?.limit || filtered.length;
+        return filtered.slice(offset, offset + limit);
+    }
+
+    async setLatest(assistantId: string, version: number): Promise<Assistant> {
+        const current = await this.get(assistantId);
+        const target = this.versions.find((v) => v.assistant_id === assistantId && v.version === version);
+        if (!target) {
+            throw new HTTPError(404, `Version ${version} of assistant ${assistantId} not found.`);
+        }
+        const next: Assistant = {
+            ...target,
+            created_at: current.created_at,
+            updated_at: new Date().toISOString(),
+        };
+        this.assistants = this.assistants.map((a) => (a.assistant_id === assistantId ? next : a));
+        return next;
+    }
+}
@@ -1,2 +1,26 @@
-import { MemorySaver } from '@langchain/langgraph-checkpoint';
-export { MemorySaver };
+import { MemorySaver as BaseMemorySaver } from '@langchain/langgraph-checkpoint';
+
+/**
+ * 内存 checkpointer，额外支持删除某个 checkpoint 之后写入的 checkpoint
+ */
+export class MemorySaver extends BaseMemorySaver {
+    /**
+     * 删除 thread 中 ID 大于 checkpointId 的 checkpoint 及其 pending writes，包括子图的命名空间；
+     * checkpointId 为 null 时删除 thread 的所有 checkpoint
+     */
+    async deleteCheckpointsAfter(threadId: string, checkpointId: string | null): Promise<void> {
+        const namespaces = this.storage[threadId] ?? {};
+        for (const [ns, checkpoints] of Object.entries(namespaces)) {
+            for (const id of Object.keys(checkpoints)) {
+                if (checkpointId === null || id > checkpointId) delete checkpoints[id];
+            }
+            // getTuple 认为存在的 namespace 中至少有一个 checkpoint
+            if (Object.keys(checkpoints).length === 0) delete namespaces[ns];
+        }
+        if (Object.keys(namespaces).length === 0) delete this.storage[threadId];
+        for (const key of Object.keys(this.writes)) {
+            const [writeThreadId, , id] = JSON.parse(key) as [string, string, string];
+            if (writeThreadId === threadId && (checkpointId === null || id > checkpointId)) delete this.writes[key];
+        }
+    }
+}
@@ -4,8 +4,11 @@ import { BaseStreamQueueInterface } from '../../queue/stream_queue.js';
 /** 内存实现的消息队列，用于存储消息 */
 export class MemoryStreamQueue extends BaseStreamQueue implements BaseStreamQueueInterface {
     private data: EventMessage[] = [];
+    /** 最后分配的事件 id，清空队列后也不会重置 */
+    private sequence = 0;
 
     async push(item: EventMessage): Promise<void> {
+        item.id = String(++this.sequence);
         const data = this.compressMessages ? ((await this.encodeData(item)) as unknown as EventMessage) : item;
         this.data.push(data);
         this.emit('dataChange', data);
@@ -112,6 +115,7 @@ export class MemoryStreamQueue extends BaseStreamQueue implements BaseStreamQueu
         const data = this.data;
         const queue = new MemoryStreamQueue(toId, this.compressMessages, ttl ?? this.ttl);
         queue.data = data;
+        queue.sequence = this.sequence;
         return queue;
     }
 }
@@ -0,0 +1,2 @@
+import { InMemoryStore } from '@langchain/langgraph-checkpoint';
+export { InMemoryStore };
@@ -1,8 +1,35 @@
-import { BaseThreadsManager } from '../../threads/index.js';
-import { Command, Config, Metadata, OnConflictBehavior, Run, Thread, ThreadStatus } from '@langgraph-js/sdk';
-import { getGraph } from '../../utils/getGraph.js';
-import { serialiseAsDict } from '../../graph/stream.js';
-import { RunStatus, SortOrder, ThreadSortBy } from '../../types';
+import { BaseThreadsManager, isRunBefore, ThreadSearchFilter } from '../../threads/index.js';
+import { Config, Cron, Metadata, OnConflictBehavior, Run, Thread, ThreadState, ThreadStatus } from '@langgraph-js/sdk';
+import {
+    CheckpointPayload,
+    getThreadHistory,
+    getThreadState,
+    ThreadStateUpdatePayload,
+    updateThreadState,
+} from '../../graph/state.js';
+import {
+    CronSortBy,
+    MultitaskStrategy,
+    RunKwargs,
+    RunStatus,
+    SortOrder,
+    ThreadSelectField,
+    ThreadSortBy,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+} from '../../types';
+import { HTTPError } from '../../utils/errors.js';
+import { isJsonEqual } from '../../utils/json.js';
+
+/**
+ * 按 . 分隔的路径读取嵌套字段，与数据库中 JSON 路径查询的语义一致
+ */
+const getJsonPath = (value: unknown, path: string): unknown => {
+    return path.split('.').reduce<unknown>((current, key) => {
+        if (current === null || typeof current !== 'object') return undefined;
+        return (current as Record<string, unknown>)[key];
+    }, value);
+};
 
 export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsManager<ValuesType> {
     private threads: Thread<ValuesType>[] = [];
@@ -15,7 +42,6 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         threadId?: string;
         ifExists?: OnConflictBehavior;
         graphId?: string;
-        supersteps?: Array<{ updates: Array<{ values: unknown; command?: Command; asNode: string }> }>;
     }): Promise<Thread<ValuesType>> {
         const threadId = payload?.threadId || crypto.randomUUID();
         if (payload?.ifExists === 'raise' && this.threads.some((t) => t.thread_id === threadId)) {
@@ -31,73 +57,97 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
             values: null as unknown as ValuesType,
             interrupts: {},
         };
+        if (payload?.graphId) {
+            thread.metadata = { ...thread.metadata, graph_id: payload.graphId };
+        }
         this.threads.push(thread);
         return thread;
     }
 
-    async search(query?: {
-        metadata?: Metadata;
-        limit?: number;
-        offset?: number;
-        status?: ThreadStatus;
-        sortBy?: ThreadSortBy;
-        sortOrder?: SortOrder;
-        withoutDetails?: boolean;
-    }): Promise<Thread<ValuesType>[]> {
+    private filterThreads(query?: ThreadSearchFilter): Thread<ValuesType>[] {
         let filteredThreads = [...this.threads];
         if (query?.status) {
             filteredThreads = filteredThreads.filter((t) => t.status === query.status);
         }
 
+        if (query?.ids) {
+            const ids = new Set(query.ids);
+            filteredThreads = filteredThreads.filter((t) => ids.has(t.thread_id));
+        }
+
         if (query?.metadata) {
-            for (const key in query.metadata) {
-                if (Object.prototype.hasOwnProperty.call(query.metadata, key)) {
-                    filteredThreads = filteredThreads.filter(
-                        (t) => t.metadata && t.metadata[key] === query.metadata?.[key],
-                    );
-                }
+            for (const [key, value] of Object.entries(query.metadata)) {
+                filteredThreads = filteredThreads.filter((t) => isJsonEqual(t.metadata?.[key], value));
+            }
+        }
+
+        if (query?.values) {
+            for (const [path, value] of Object.entries(query.values)) {
+                filteredThreads = filteredThreads.filter((t) => isJsonEqual(getJsonPath(t.values, path), value));
             }
         }
+        return filteredThreads;
+    }
+
+    async search(
+        query?: ThreadSearchFilter & {
+            limit?: number;
+            offset?: number;
+            sortBy?: ThreadSortBy;
+            sortOrder?: SortOrder;
+            withoutDetails?: boolean;
+            select?: ThreadSelectField[];
+        },
+    ): Promise<Thread<ValuesType>[]> {
+        const filteredThreads = this.filterThreads(query);
 
         if (query?.sortBy) {
             filteredThreads.sort((a, b) => {
-                let aValue: any;
-                let bValue: any;
-
+                let result: number;
                 switch (query.sortBy) {
                     case 'created_at':
-                        aValue = new Date(a.created_at).getTime();
-                        bValue = new Date(b.created_at).getTime();
+                        result = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
                         break;
                     case 'updated_at':
-                        aValue = new Date(a.updated_at).getTime();
-                        bValue = new Date(b.updated_at).getTime();
+                        result = new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime();
+                        break;
+                    case 'thread_id':
+                        result = a.thread_id.localeCompare(b.thread_id);
+                        break;
+                    case 'status':
+                        result = a.status.localeCompare(b.status);
                         break;
                     default:
                         return 0;
                 }
-
-                if (query.sortOrder === 'desc') {
-                    return bValue - aValue;
-                } else {
-                    return aValue - bValue;
-                }
+                return query.sortOrder === 'desc' ? -result : result;
             });
         }
 
         const offset = query?.offset || 0;
         const limit = query?.limit || filteredThreads.length;
 
-        return filteredThreads.slice(offset, offset + limit).map((i) => {
-            // 当不需要 values 字段时，进行删除
+        // 返回副本，避免裁剪字段时修改内存中保存的 thread
+        return filteredThreads.slice(offset, offset + limit).map((thread) => {
+            if (query?.select) {
+                const selected: Partial<Thread<ValuesType>> = {};
+                for (const field of query.select) {
+                    (selected as Record<string, unknown>)[field] = thread[field];
+                }
+                return selected as Thread<ValuesType>;
+            }
+            // 当不需要 values 字段时，置空
             if (query?.withoutDetails) {
-                i.values = null as unknown as ValuesType;
-                i.interrupts = null as unknown as any;
+                return { ...thread, values: null as unknown as ValuesType, interrupts: null as unknown as any };
             }
-            return i;
+            return thread;
         });
     }
 
+    async count(query?: ThreadSearchFilter): Promise<number> {
+        return this.filterThreads(query).length;
+    }
+
     async get(threadId: string): Promise<Thread<ValuesType>> {
         const thread = this.threads.find((t) => t.thread_id === threadId);
         if (!thread) {
@@ -110,7 +160,8 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         if (index === -1) {
             throw new Error(`Thread with ID ${threadId} not found.`);
         }
-        this.threads[index] = { ...this.threads[index], ...thread };
+        // 与 Kysely 实现一致，每次写入都刷新 updated_at
+        this.threads[index] = { ...this.threads[index], ...thread, updated_at: new Date().toISOString() };
     }
     async delete(threadId: string): Promise<void> {
         const initialLength = this.threads.length;
@@ -118,54 +169,112 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         if (this.threads.length === initialLength) {
             throw new Error(`Thread with ID ${threadId} not found.`);
         }
+        // 同时清除 thread 的 run、cron 与 webhook 推送记录
+        for (const run of this.runs) {
+            if (run.thread_id === threadId) this.runKwargs.delete(run.run_id);
+        }
+        this.runs = this.runs.filter((r) => r.thread_id !== threadId);
+        this.crons = this.crons.filter((c) => c.thread_id !== threadId);
+        this.webhookDeliveries = this.webhookDeliveries.filter((d) => d.thread_id !== threadId);
     }
-    async updateState(threadId: string, thread: Partial<Thread<ValuesType>>): Promise<Pick<Config, 'configurable'>> {
-        const index = this.threads.findIndex((t) => t.thread_id === threadId) as number;
-        if (index === -1) {
-            throw new Error(`Thread with ID ${threadId} not found.`);
+    async copy(threadId: string): Promise<Thread<ValuesType>> {
+        const thread = await this.get(threadId);
+        const now = new Date().toISOString();
+        const copied: Thread<ValuesType> = {
+            ...structuredClone(thread),
+            thread_id: crypto.randomUUID(),
+            created_at: now,
+            updated_at: now,
+            status: thread.status === 'busy' ? 'idle' : thread.status,
+        };
+        this.threads.push(copied);
+        return copied;
+    }
+    async update(threadId: string, payload: { metadata?: Metadata }): Promise<Thread<ValuesType>> {
+        const thread = await this.get(threadId);
+        await this.set(threadId, { metadata: { ...thread.metadata, ...payload.metadata } });
+        return this.get(threadId);
+    }
+    async prune(query: { before?: string; status?: ThreadStatus; metadata?: Metadata }): Promise<string[]> {
+        const before = query.before ? new Date(query.before).getTime() : undefined;
+        const pruned = this.threads.filter(
+            (t) =>
+                t.status !== 'busy' &&
+                (!query.status || t.status === query.status) &&
+                (before === undefined || new Date(t.updated_at).getTime() < before) &&
+                Object.entries(query.metadata ?? {}).every(([key, value]) => isJsonEqual(t.metadata?.[key], value)),
+        );
+        for (const thread of pruned) {
+            await this.delete(thread.thread_id);
         }
-        const targetThread = this.threads[index];
+        return pruned.map((thread) => thread.thread_id);
+    }
+    async updateState(threadId: string, payload: ThreadStateUpdatePayload): Promise<Pick<Config, 'configurable'>> {
+        const targetThread = await this.get(threadId);
         if (targetThread.status === 'busy') {
             throw new Error(`Thread with ID ${threadId} is busy, can't update state.`);
         }
-        this.threads[index] = { ...targetThread, values: thread.values as ValuesType };
-        if (!targetThread.metadata?.graph_id) {
-            throw new Error(`Thread with ID ${threadId} has no graph_id.`);
-        }
-        const graphId = targetThread.metadata?.graph_id as string;
-        const config = {
-            configurable: {
-                thread_id: threadId,
-                graph_id: graphId,
-            },
-        };
-        const graph = await getGraph(graphId, config);
-        const nextConfig = await graph.updateState(config, thread.values);
-        const graphState = await graph.getState(config);
-        await this.set(threadId, { values: JSON.parse(serialiseAsDict(graphState.values)) as ValuesType });
-        return nextConfig;
+        const { config, values } = await updateThreadState(targetThread, payload);
+        await this.set(threadId, { values });
+        return config;
+    }
+
+    async getState(
+        threadId: string,
+        checkpoint?: CheckpointPayload | string,
+        options?: { subgraphs?: boolean },
+    ): Promise<ThreadState<ValuesType>> {
+        const thread = await this.get(threadId);
+        return getThreadState(thread, checkpoint, options);
+    }
+
+    async getHistory(
+        threadId: string,
+        options?: { limit?: number; before?: Config | string; metadata?: Metadata; checkpoint?: CheckpointPayload },
+    ): Promise<ThreadState<ValuesType>[]> {
+        const thread = await this.get(threadId);
+        return getThreadHistory(thread, options);
     }
     runs: Run[] = [];
-    async createRun(threadId: string, assistantId: string, payload?: { metadata?: Metadata }): Promise<Run> {
+    /** 由调度器执行的 run 保存的参数 */
+    private runKwargs: Map<string, RunKwargs> = new Map();
+    async createRun(
+        threadId: string,
+        assistantId: string,
+        payload?: {
+            metadata?: Metadata;
+            multitaskStrategy?: MultitaskStrategy;
+            afterSeconds?: number;
+            kwargs?: RunKwargs;
+        },
+    ): Promise<Run> {
         const runId = crypto.randomUUID();
+        const now = new Date();
         const run: Run = {
             run_id: runId,
             thread_id: threadId,
             assistant_id: assistantId,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
+            created_at: new Date(now.getTime() + (payload?.afterSeconds ?? 0) * 1000).toISOString(),
+            updated_at: now.toISOString(),
             status: 'pending',
             metadata: payload?.metadata ?? {},
-            multitask_strategy: 'reject',
+            multitask_strategy: payload?.multitaskStrategy ?? 'reject',
         };
         this.runs.push(run);
+        if (payload?.kwargs) {
+            this.runKwargs.set(runId, { ...payload.kwargs });
+        }
         return run;
     }
     async listRuns(
         threadId: string,
         options?: { limit?: number; offset?: number; status?: RunStatus },
     ): Promise<Run[]> {
-        let filteredRuns = [...this.runs];
+        // 与 Kysely 实现一致，只返回该 thread 的 run，按 created_at 倒序，同一时间创建的 run 后创建的在前
+        let filteredRuns = this.runs
+            .filter((r) => r.thread_id === threadId)
+            .reverse()
+            .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
         if (options?.status) {
             filteredRuns = filteredRuns.filter((r) => r.status === options.status);
         }
@@ -174,6 +283,13 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         }
         return filteredRuns;
     }
+    async getRun(runId: string): Promise<Run> {
+        const run = this.runs.find((r) => r.run_id === runId);
+        if (!run) {
+            throw new HTTPError(404, `Run with ID ${runId} not found.`);
+        }
+        return run;
+    }
     async updateRun(runId: string, run: Partial<Run>): Promise<void> {
         const index = this.runs.findIndex((r) => r.run_id === runId);
         if (index === -1) {
@@ -181,4 +297,190 @@ export class MemoryThreadsManager<ValuesType = unknown> implements BaseThreadsMa
         }
         this.runs[index] = { ...this.runs[index], ...run };
     }
+    async deleteRun(runId: string): Promise<void> {
+        this.runs = this.runs.filter((r) => r.run_id !== runId);
+        this.runKwargs.delete(runId);
+    }
+    async listDueRuns(now: string, limit: number): Promise<Run[]> {
+        const time = new Date(now).getTime();
+        const blocked = (run: Run) =>
+            this.runs.some(
+                (other) =>
+                    other.thread_id === run.thread_id &&
+                    other.run_id !== run.run_id &&
+                    (other.status === 'running' || (other.status === 'pending' && isRunBefore(other, run))),
+            );
+        return this.runs
+            .filter(
+                (r) =>
+                    r.status === 'pending' &&
+                    this.runKwargs.has(r.run_id) &&
+                    new Date(r.created_at).getTime() <= time &&
+                    !blocked(r),
+            )
+            .sort((a, b) => (isRunBefore(a, b) ? -1 : 1))
+            .slice(0, limit);
+    }
+    async claimRun(runId: string): Promise<RunKwargs | null> {
+        const run = this.runs.find((r) => r.run_id === runId);
+        const kwargs = this.runKwargs.get(runId);
+        if (!run || run.status !== 'pending' || !kwargs) return null;
+        await this.updateRun(runId, { status: 'running' });
+        return { ...kwargs };
+    }
+    crons: Cron[] = [];
+    async createCron(payload: {
+        assistantId: string;
+        threadId?: string;
+        schedule: string;
+        endTime?: string;
+        payload: Record<string, unknown>;
+        metadata?: Metadata;
+        nextRunDate: string | null;
+    }): Promise<Cron> {
+        const now = new Date().toISOString();
+        const cron: Cron = {
+            cron_id: crypto.randomUUID(),
+            assistant_id: payload.assistantId,
+            thread_id: payload.threadId ?? null,
+            user_id: null,
+            schedule: payload.schedule,
+            payload: payload.payload,
+            metadata: payload.metadata ?? {},
+            end_time: payload.endTime ?? null,
+            next_run_date: payload.nextRunDate,
+            created_at: now,
+            updated_at: now,
+        };
+        this.crons.push(cron);
+        return cron;
+    }
+    async getCron(cronId: string): Promise<Cron> {
+        const cron = this.crons.find((c) => c.cron_id === cronId);
+        if (!cron) {
+            throw new HTTPError(404, `Cron with ID ${cronId} not found.`);
+        }
+        return cron;
+    }
+    async updateCron(
+        cronId: string,
+        payload: {
+            schedule?: string;
+            endTime?: string | null;
+            payload?: Record<string, unknown>;
+            metadata?: Metadata;
+            nextRunDate?: string | null;
+        },
+    ): Promise<Cron> {
+        const current = await this.getCron(cronId);
+        const next: Cron = {
+            ...current,
+            schedule: payload.schedule ?? current.schedule,
+            end_time: payload.endTime !== undefined ? payload.endTime : current.end_time,
+            payload: payload.payload ?? current.payload,
+            metadata: payload.metadata ?? current.metadata,
+            next_run_date: payload.nextRunDate !== undefined ? payload.nextRunDate : current.next_run_date,
+            updated_at: new Date().toISOString(),
+        };
+        this.crons = this.crons.map((c) => (c.cron_id === cronId ? next : c));
+        return next;
+    }
+    async deleteCron(cronId: string): Promise<void> {
+        const initialLength = this.crons.length;
+        this.crons = this.crons.filter((c) => c.cron_id !== cronId);
+        if (this.crons.length === initialLength) {
+            throw new HTTPError(404, `Cron with ID ${cronId} not found.`);
+        }
+    }
+    async searchCrons(query?: {
+        assistantId?: string;
+        threadId?: string;
+        limit?: number;
+        offset?: number;
+        sortBy?: CronSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Cron[]> {
+        const sortBy = query?.sortBy ?? 'created_at';
+        const direction = query?.sortOrder === 'asc' ? 1 : -1;
+        const filtered = this.crons
+            .filter(
+                (c) =>
+                    (!query?.assistantId || c.assistant_id === query.assistantId) &&
+                    (!query?.threadId || c.thread_id === query.threadId),
+            )
+            .sort((a, b) => String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? '')) * direction);
+        const offset = query?.offset || 0;
+        const limit = query?.limit || filtered.length;
+        return filtered.slice(offset, offset + limit);
+    }
+    async countCrons(query?: { assistantId?: string; threadId?: string }): Promise<number> {
+        const crons = await this.searchCrons({ assistantId: query?.assistantId, threadId: query?.threadId });
+        return crons.length;
+    }
+    async listDueCrons(now: string): Promise<Cron[]> {
+        const time = new Date(now).getTime();
+        return this.crons
+            .filter((c) => c.next_run_date && new Date(c.next_run_date).getTime() <= time)
+            .sort((a, b) => a.next_run_date!.localeCompare(b.next_run_date!));
+    }
+    async claimCron(cronId: string, currentRunDate: string, nextRunDate: string | null): Promise<boolean> {
+        const cron = this.crons.find((c) => c.cron_id === cronId);
+        if (!cron || cron.next_run_date !== currentRunDate) return false;
+        // 检查与更新之间不能有 await，否则并发的调度器可能同时领取同一次触发
+        const next: Cron = { ...cron, next_run_date: nextRunDate, updated_at: new Date().toISOString() };
+        this.crons = this.crons.map((c) => (c.cron_id === cronId ? next : c));
+        return true;
+    }
+    webhookDeliveries: WebhookDelivery[] = [];
+    async createWebhookDelivery(payload: { runId: string; threadId: string; url: string }): Promise<WebhookDelivery> {
+        const now = new Date().toISOString();
+        const delivery: WebhookDelivery = {
+            delivery_id: crypto.randomUUID(),
+            run_id: payload.runId,
+            thread_id: payload.threadId,
+            url: payload.url,
+            status: 'pending',
+            attempts: 0,
+            response_status: null,
+            error: null,
+            created_at: now,
+            updated_at: now,
+        };
+        this.webhookDeliveries.push(delivery);
+        return delivery;
+    }
+    async updateWebhookDelivery(
+        deliveryId: string,
+        payload: {
+            status: WebhookDeliveryStatus;
+            attempts: number;
+            responseStatus: number | null;
+            error: string | null;
+        },
+    ): Promise<void> {
+        const delivery = this.webhookDeliveries.find((d) => d.delivery_id === deliveryId);
+        if (!delivery) return;
+        Object.assign(delivery, {
+            status: payload.status,
+            attempts: payload.attempts,
+            response_status: payload.responseStatus,
+            error: payload.error,
+            updated_at: new Date().toISOString(),
+        });
+    }
+    async listWebhookDeliveries(query?: {
+        runId?: string;
+        threadId?: string;
+        status?: WebhookDeliveryStatus;
+        limit?: number;
+        offset?: number;
+    }): Promise<WebhookDelivery[]> {
+        const deliveries = this.webhookDeliveries
+            .filter((d) => !query?.runId || d.run_id === query.runId)
+            .filter((d) => !query?.threadId || d.thread_id === query.threadId)
+            .filter((d) => !query?.status || d.status === query.status)
+            .reverse();
+        const offset = query?.offset ?? 0;
+        return deliveries.slice(offset, query?.limit !== undefined ? offset + query.limit : undefined);
+    }
 }
@@ -0,0 +1,136 @@
+import { randomUUID } from 'node:crypto';
+import { RedisClientType } from 'redis';
+import type { CancelChannel, CancelRequest, CancelRequestHandler } from '../../queue/cancel_channel.js';
+import { RedisStreamQueue } from './queue.js';
+
+/** 所有实例共同订阅的取消请求频道 / Channel every instance listens to for cancel requests */
+const CANCEL_CHANNEL = 'cancel:requests';
+
+interface CancelReply {
+    /** accepted: 持有者已中止 run；done: 图循环已停止；failed: 取消失败 */
+    status: 'accepted' | 'done' | 'failed';
+    error?: string;
+}
+
+/**
+ * 基于 Redis pub/sub 的取消控制通道，复用 RedisStreamQueue 的客户端
+ * Cancel control channel over Redis pub/sub, sharing the clients of RedisStreamQueue
+ *
+ * 请求方先订阅 cancel:reply:{requestId} 再发布请求，持有该 run 的实例中止 run 后回复 accepted，wait 时图循环停止后再回复 done
+ * The requester subscribes to cancel:reply:{requestId} before publishing; the owner replies accepted after aborting the run, and done once the graph loop stops when waiting
+ */
+export class RedisCancelChannel implements CancelChannel {
+    private redis: RedisClientType;
+    private subscriberRedis: RedisClientType;
+
+    /**
+     * 构造函数
+     * Constructor
+     * @param timeout 等待持有者确认的毫秒数 / Time to wait for the owner to confirm, in milliseconds
+     */
+    private constructor(
+        readonly timeout: number = process.env.CANCEL_ACK_TIMEOUT ? parseInt(process.env.CANCEL_ACK_TIMEOUT) : 5000,
+    ) {
+        this.redis = RedisStreamQueue.redis;
+        this.subscriberRedis = RedisStreamQueue.subscriberRedis;
+    }
+
+    /**
+     * 创建取消通道，并等待两个 Redis 客户端连接完成
+     * Create the cancel channel and wait until both Redis clients are connected
+     * @param timeout 等待持有者确认的毫秒数 / Time to wait for the owner to confirm, in milliseconds
+     */
+    static async create(timeout?: number): Promise<RedisCancelChannel> {
+        const channel = new RedisCancelChannel(timeout);
+        await Promise.all(
+            [channel.redis, channel.subscriberRedis]
+                .filter((client) => !client.isOpen)
+                .map((client) => client.connect()),
+        );
+        return channel;
+    }
+
+    async subscribe(handler: CancelRequestHandler): Promise<void> {
+        await this.subscriberRedis.subscribe(CANCEL_CHANNEL, (message) => {
+            this.handleRequest(JSON.parse(message), handler).catch((error) => {
+                console.error('Cancel request error:', error);
+            });
+        });
+    }
+
+    async request(request: CancelRequest): Promise<boolean> {
+        const requestId = randomUUID();
+        const replyChannel = `cancel:reply:${requestId}`;
+
+        let resolveAccepted!: () => void;
+        const accepted = new Promise<void>((resolve) => {
+            resolveAccepted = resolve;
+        });
+        let resolveDone!: () => void;
+        let rejectDone!: (error: Error) => void;
+        const done = new Promise<void>((resolve, reject) => {
+            resolveDone = resolve;
+            rejectDone = reject;
+        });
+        // 不等待完成时忽略失败，避免未处理的 rejection / Ignore failures when not waiting to avoid unhandled rejections
+        done.catch(() => undefined);
+
+        // 先订阅回复频道，避免错过持有者的回复 / Subscribe first so the owner's reply cannot be missed
+        await this.subscriberRedis.subscribe(replyChannel, (message) => {
+            const reply = JSON.parse(message) as CancelReply;
+            if (reply.status === 'accepted') {
+                resolveAccepted();
+            } else if (reply.status === 'done') {
+                resolveDone();
+            } else {
+                rejectDone(new Error(reply.error ?? `Cancel run ${request.runId} failed.`));
+            }
+        });
+
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await this.redis.publish(CANCEL_CHANNEL, JSON.stringify({ ...request, requestId }));
+            const confirmed = await Promise.race([
+                accepted.then(() => true),
+                new Promise<boolean>((resolve) => {
+                    timer = setTimeout(() => resolve(false), this.timeout);
+                }),
+            ]);
+            if (!confirmed) return false;
+            if (request.wait) await done;
+            return true;
+        } finally {
+            clearTimeout(timer);
+            await this.subscriberRedis.unsubscribe(replyChannel);
+        }
+    }
+
+    /**
+     * 当前实例持有该 run 时执行取消，并向请求方回复
+     * Cancel the run when this instance owns it and reply to the requester
+     */
+    private async handleRequest(
+        request: CancelRequest & { requestId: string },
+        handler: CancelRequestHandler,
+    ): Promise<void> {
+        const task = handler(request);
+        if (!task) return;
+        // 立即挂上处理函数，避免在回复期间出现未处理的 rejection / Attach handlers now so no rejection goes unhandled while replying
+        const result = task.then(
+            (): CancelReply => ({ status: 'done' }),
+            (error): CancelReply => ({
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+            }),
+        );
+
+        const replyChannel = `cancel:reply:${request.requestId}`;
+        await this.redis.publish(replyChannel, JSON.stringify({ status: 'accepted' } satisfies CancelReply));
+        const reply = await result;
+        if (request.wait) {
+            await this.redis.publish(replyChannel, JSON.stringify(reply));
+        } else if (reply.status === 'failed') {
+            console.error(`Cancel run ${request.runId} error:`, reply.error);
+        }
+    }
+}
@@ -16,6 +16,7 @@ export class RedisStreamQueue extends BaseStreamQueue implements BaseStreamQueue
     private subscriberRedis: RedisClientType;
     private queueKey: string;
     private channelKey: string;
+    private sequenceKey: string;
     private isConnected = false;
     public cancelSignal: AbortController;
 
@@ -23,6 +24,7 @@ export class RedisStreamQueue extends BaseStreamQueue implements BaseStreamQueue
         super(id, true, ttl);
         this.queueKey = `queue:${this.id}`;
         this.channelKey = `channel:${this.id}`;
+        this.sequenceKey = `sequence:${this.id}`;
         this.redis = RedisStreamQueue.redis;
         this.subscriberRedis = RedisStreamQueue.subscriberRedis;
         this.cancelSignal = new AbortController();
@@ -41,6 +43,10 @@ export class RedisStreamQueue extends BaseStreamQueue implements BaseStreamQueue
      * 推送消息到 Redis 队列
      */
     async push(item: EventMessage): Promise<void> {
+        // 通过 INCR 分配 id，多个实例写入同一队列时也保持单调递增
+        item.id = String(await this.redis.incr(this.sequenceKey));
+        await this.redis.expire(this.sequenceKey, this.ttl);
+
         const data = await this.encodeData(item);
         const serializedData = Buffer.from(data);
 
@@ -174,6 +180,8 @@ export class RedisStreamQueue extends BaseStreamQueue implements BaseStreamQueue
         const queue = new RedisStreamQueue(toId, this.compressMessages, ttl ?? this.ttl);
         await this.redis.copy(this.queueKey, queue.queueKey);
         await this.redis.expire(queue.queueKey, ttl ?? this.ttl);
+        await this.redis.copy(this.sequenceKey, queue.sequenceKey);
+        await this.redis.expire(queue.sequenceKey, ttl ?? this.ttl);
         return queue;
     }
 }
@@ -508,6 +508,26 @@ CREATE TABLE IF NOT EXISTS writes (
         });
     }
 
+    /**
+     * 在一个事务中删除 thread 中 ID 大于 checkpointId 的 checkpoint 及其 writes，包括子图的命名空间；
+     * checkpointId 为 null 时删除 thread 的所有 checkpoint
+     */
+    async deleteCheckpointsAfter(threadId: string, checkpointId: string | null) {
+        if (checkpointId === null) return this.deleteThread(threadId);
+        await this.db.transaction().execute(async (trx) => {
+            await trx
+                .deleteFrom('checkpoints')
+                .where('thread_id', '=', threadId)
+                .where('checkpoint_id', '>', checkpointId)
+                .execute();
+            await trx
+                .deleteFrom('writes')
+                .where('thread_id', '=', threadId)
+                .where('checkpoint_id', '>', checkpointId)
+                .execute();
+        });
+    }
+
     protected async migratePendingSends(checkpoint: Checkpoint, threadId: string, parentCheckpointId: string) {
         const result = await this.db
             .selectFrom('writes as ps')
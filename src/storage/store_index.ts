@@ -0,0 +1,100 @@
+import { Embeddings, EmbeddingsInterface } from '@langchain/core/embeddings';
+import { getTextAtPath, IndexConfig } from '@langchain/langgraph-checkpoint';
+
+/**
+ * 自定义的 embedding 函数，按顺序返回每段文本的向量
+ */
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Store 的向量索引配置
+ */
+export interface StoreIndexConfig {
+    /** embedding 向量的维度 */
+    dims: number;
+    /** embedding 模型，可以是 LangChain 的 Embeddings，也可以是一个普通的函数 */
+    embed: EmbeddingsInterface | EmbedFunction;
+    /**
+     * 需要建立索引的字段路径，如 ['text', 'metadata.title']
+     * @default ['$'] 整个 value
+     */
+    fields?: string[];
+}
+
+let STORE_INDEX: StoreIndexConfig | undefined;
+
+/**
+ * 为服务端的 Store 注册向量索引配置，需要在 LangGraphGlobal 初始化之前调用
+ */
+export function registerStoreIndex(index: StoreIndexConfig) {
+    STORE_INDEX = index;
+}
+
+export function getStoreIndex() {
+    return STORE_INDEX;
+}
+
+class FunctionEmbeddings extends Embeddings {
+    constructor(private embed: EmbedFunction) {
+        super({});
+    }
+
+    embedDocuments(texts: string[]): Promise<number[][]> {
+        return this.embed(texts);
+    }
+
+    async embedQuery(text: string): Promise<number[]> {
+        const [vector] = await this.embed([text]);
+        return vector;
+    }
+}
+
+/**
+ * 将 embed 统一为 Embeddings 接口
+ */
+export const toEmbeddings = (embed: StoreIndexConfig['embed']): EmbeddingsInterface => {
+    return typeof embed === 'function' ? new FunctionEmbeddings(embed) : embed;
+};
+
+/**
+ * 转换为 @langchain/langgraph-checkpoint 的 IndexConfig，供 InMemoryStore 使用
+ */
+export const toIndexConfig = (index: StoreIndexConfig): IndexConfig => ({
+    dims: index.dims,
+    embeddings: toEmbeddings(index.embed) as Embeddings,
+    fields: index.fields,
+});
+
+/**
+ * 按字段路径提取需要 embedding 的文本，返回 [字段路径, 文本] 列表
+ * 路径匹配到多个文本时，字段路径会追加序号
+ */
+export const extractIndexTexts = (value: Record<string, any>, fields: string[]): [string, string][] => {
+    const texts: [string, string][] = [];
+    for (const field of fields) {
+        const matched = getTextAtPath(value, field);
+        if (matched.length > 1) {
+            matched.forEach((text, index) => texts.push([`${field}.${index}`, text]));
+        } else if (matched.length === 1) {
+            texts.push([field, matched[0]]);
+        }
+    }
+    return texts;
+};
+
+/**
+ * 计算两个向量的余弦相似度
+ */
+export const cosineSimilarity = (a: number[], b: number[]) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * (b[i] ?? 0);
+        normA += a[i] * a[i];
+    }
+    for (const value of b) {
+        normB += value * value;
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -1,5 +1,36 @@
-import { Command, Config, Metadata, OnConflictBehavior, Run, Thread, ThreadStatus } from '@langgraph-js/sdk';
-import { RunStatus, SortOrder, ThreadSortBy } from '../types';
+import { Config, Cron, Metadata, OnConflictBehavior, Run, Thread, ThreadState, ThreadStatus } from '@langgraph-js/sdk';
+import type { CheckpointPayload, ThreadStateUpdatePayload } from '../graph/state';
+import {
+    CronSortBy,
+    MultitaskStrategy,
+    RunKwargs,
+    RunStatus,
+    SortOrder,
+    ThreadSelectField,
+    ThreadSortBy,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+} from '../types';
+
+/**
+ * 同一 thread 上 run 的执行顺序，created_at 早的先执行，created_at 相同时按 run_id 排序
+ */
+export const isRunBefore = (a: Run, b: Run): boolean => {
+    const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    return diff < 0 || (diff === 0 && a.run_id < b.run_id);
+};
+
+/**
+ * 搜索与计数 thread 时共用的过滤条件
+ */
+export interface ThreadSearchFilter {
+    metadata?: Metadata;
+    /** 按 values 中的字段过滤，键为 JSON 路径，以 . 访问嵌套字段，如 user.name */
+    values?: Record<string, unknown>;
+    /** 只返回这些 thread_id */
+    ids?: string[];
+    status?: ThreadStatus;
+}
 
 export interface BaseThreadsManager<ValuesType = unknown> {
     setup(): Promise<void>;
@@ -8,26 +39,163 @@ export interface BaseThreadsManager<ValuesType = unknown> {
         threadId?: string;
         ifExists?: OnConflictBehavior;
         graphId?: string;
-        supersteps?: Array<{ updates: Array<{ values: unknown; command?: Command; asNode: string }> }>;
     }): Promise<Thread<ValuesType>>;
     set(threadId: string, thread: Partial<Thread<ValuesType>>): Promise<void>;
-    search(query?: {
-        metadata?: Metadata;
-        limit?: number;
-        offset?: number;
-        status?: ThreadStatus;
-        sortBy?: ThreadSortBy;
-        sortOrder?: SortOrder;
-        /**
-         * @default false
-         * @description 是否不返回 values 字段
-         */
-        withoutDetails?: boolean;
-    }): Promise<Thread<ValuesType>[]>;
+    search(
+        query?: ThreadSearchFilter & {
+            limit?: number;
+            offset?: number;
+            sortBy?: ThreadSortBy;
+            sortOrder?: SortOrder;
+            /**
+             * @default false
+             * @description 是否不返回 values 字段
+             */
+            withoutDetails?: boolean;
+            /** 只返回这些字段，优先于 withoutDetails */
+            select?: ThreadSelectField[];
+        },
+    ): Promise<Thread<ValuesType>[]>;
+    /**
+     * 统计符合条件的 thread 数量，不受分页影响
+     */
+    count(query?: ThreadSearchFilter): Promise<number>;
     get(threadId: string): Promise<Thread<ValuesType>>;
+    /**
+     * 删除 thread 及其 run、cron 与 webhook 推送记录，
+     * 停止 run 以及清除 checkpoint 由调用方（createEndpoint）负责
+     */
     delete(threadId: string): Promise<void>;
-    updateState(threadId: string, thread: Partial<Thread<ValuesType>>): Promise<Pick<Config, 'configurable'>>;
-    createRun(threadId: string, assistantId: string, payload?: { metadata?: Metadata }): Promise<Run>;
+    /**
+     * 复制 thread，返回新的 thread，checkpoint 由调用方复制
+     */
+    copy(threadId: string): Promise<Thread<ValuesType>>;
+    /**
+     * 合并更新 thread 的 metadata
+     */
+    update(threadId: string, payload: { metadata?: Metadata }): Promise<Thread<ValuesType>>;
+    /**
+     * 批量删除符合条件的 thread，忙碌中的 thread 不会被删除
+     * @returns 删除的 thread ID，调用方据此清除它们的 checkpoint
+     */
+    prune(query: {
+        /** 删除 updated_at 早于该时间的 thread */
+        before?: string;
+        status?: ThreadStatus;
+        metadata?: Metadata;
+    }): Promise<string[]>;
+    /**
+     * 更新 thread 的状态，可以指定写入的节点，或在历史 checkpoint 上分叉
+     */
+    updateState(threadId: string, payload: ThreadStateUpdatePayload): Promise<Pick<Config, 'configurable'>>;
+    /**
+     * 读取 thread 在指定 checkpoint 的状态，不传 checkpoint 时返回最新状态
+     */
+    getState(
+        threadId: string,
+        checkpoint?: CheckpointPayload | string,
+        options?: { subgraphs?: boolean },
+    ): Promise<ThreadState<ValuesType>>;
+    /**
+     * 读取 thread 的历史状态，按时间倒序返回
+     */
+    getHistory(
+        threadId: string,
+        options?: { limit?: number; before?: Config | string; metadata?: Metadata; checkpoint?: CheckpointPayload },
+    ): Promise<ThreadState<ValuesType>[]>;
+    /**
+     * 创建 pending 状态的 run
+     * 传入 afterSeconds 时，created_at 为计划开始执行的时间
+     * 传入 kwargs 时 run 由调度器执行，kwargs 与 run 一起保存
+     */
+    createRun(
+        threadId: string,
+        assistantId: string,
+        payload?: {
+            metadata?: Metadata;
+            multitaskStrategy?: MultitaskStrategy;
+            afterSeconds?: number;
+            kwargs?: RunKwargs;
+        },
+    ): Promise<Run>;
     listRuns(threadId: string, options?: { limit?: number; offset?: number; status?: RunStatus }): Promise<Run[]>;
+    /**
+     * @throws HTTPError 404 run 不存在时
+     */
+    getRun(runId: string): Promise<Run>;
     updateRun(runId: string, run: Partial<Run>): Promise<void>;
+    deleteRun(runId: string): Promise<void>;
+    /**
+     * 列出可以开始执行的后台 run：保存了 kwargs、状态为 pending、created_at 不晚于 now，
+     * 并且同一 thread 上没有 running 的 run，也没有按 isRunBefore 排在它之前的 pending run
+     * 按 created_at 升序返回
+     */
+    listDueRuns(now: string, limit: number): Promise<Run[]>;
+    /**
+     * 领取保存了 kwargs 的 pending run 并标记为 running，以条件更新保证并发的实例中只有一个能领取成功
+     * @returns 领取成功时返回 run 的 kwargs，否则返回 null
+     */
+    claimRun(runId: string): Promise<RunKwargs | null>;
+    createCron(payload: {
+        assistantId: string;
+        /** 不传时每次触发都会创建新的 thread */
+        threadId?: string;
+        schedule: string;
+        endTime?: string;
+        /** 与创建 run 的请求体相同的参数 */
+        payload: Record<string, unknown>;
+        metadata?: Metadata;
+        nextRunDate: string | null;
+    }): Promise<Cron>;
+    getCron(cronId: string): Promise<Cron>;
+    updateCron(
+        cronId: string,
+        payload: {
+            schedule?: string;
+            endTime?: string | null;
+            payload?: Record<string, unknown>;
+            metadata?: Metadata;
+            nextRunDate?: string | null;
+        },
+    ): Promise<Cron>;
+    deleteCron(cronId: string): Promise<void>;
+    searchCrons(query?: {
+        assistantId?: string;
+        threadId?: string;
+        limit?: number;
+        offset?: number;
+        sortBy?: CronSortBy;
+        sortOrder?: SortOrder;
+    }): Promise<Cron[]>;
+    countCrons(query?: { assistantId?: string; threadId?: string }): Promise<number>;
+    /**
+     * 列出 next_run_date 不晚于 now 的 cron
+     */
+    listDueCrons(now: string): Promise<Cron[]>;
+    /**
+     * 仅当 next_run_date 仍为 currentRunDate 时将其推进到 nextRunDate
+     * 多个实例共享数据库时，只有推进成功的实例会启动本次 run
+     * @returns 是否推进成功
+     */
+    claimCron(cronId: string, currentRunDate: string, nextRunDate: string | null): Promise<boolean>;
+    createWebhookDelivery(payload: { runId: string; threadId: string; url: string }): Promise<WebhookDelivery>;
+    updateWebhookDelivery(
+        deliveryId: string,
+        payload: {
+            status: WebhookDeliveryStatus;
+            attempts: number;
+            responseStatus: number | null;
+            error: string | null;
+        },
+    ): Promise<void>;
+    /**
+     * 按创建时间倒序列出 webhook 投递记录
+     */
+    listWebhookDeliveries(query?: {
+        runId?: string;
+        threadId?: string;
+        status?: WebhookDeliveryStatus;
+        limit?: number;
+        offset?: number;
+    }): Promise<WebhookDelivery[]>;
 }
@@ -1,6 +1,7 @@
 import {
     Thread,
     Assistant,
+    AssistantVersion,
     Run,
     StreamMode,
     Command,
@@ -10,27 +11,56 @@ import {
     ThreadStatus,
     Checkpoint,
     Config,
+    ThreadState,
+    Cron,
 } from '@langchain/langgraph-sdk';
 import { StreamEvent } from '@langchain/core/tracers/log_stream';
 import { EventMessage } from './queue/event_message';
 import { RunnableConfig } from '@langchain/core/runnables';
+import type { Item, SearchItem } from '@langchain/langgraph-checkpoint';
 
 // 基础类型定义
 export type AssistantSortBy = 'assistant_id' | 'graph_id' | 'name' | 'created_at' | 'updated_at';
 export type ThreadSortBy = 'thread_id' | 'status' | 'created_at' | 'updated_at';
+export type ThreadSelectField =
+    'thread_id' | 'created_at' | 'updated_at' | 'metadata' | 'status' | 'values' | 'interrupts';
+export type CronSortBy = 'cron_id' | 'assistant_id' | 'thread_id' | 'created_at' | 'updated_at' | 'next_run_date';
 export type SortOrder = 'asc' | 'desc';
 export type RunStatus = 'pending' | 'running' | 'error' | 'success' | 'timeout' | 'interrupted';
 export type MultitaskStrategy = 'reject' | 'interrupt' | 'rollback' | 'enqueue';
 export type DisconnectMode = 'cancel' | 'continue';
 export type OnCompletionBehavior = 'complete' | 'continue';
 export type CancelAction = 'interrupt' | 'rollback';
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+/**
+ * run 结束后 webhook 的投递记录，用于排查没有送达的回调
+ */
+export interface WebhookDelivery {
+    delivery_id: string;
+    run_id: string;
+    thread_id: string;
+    url: string;
+    /** 重试中为 pending，重试次数用完仍失败为 failed */
+    status: WebhookDeliveryStatus;
+    /** 已经尝试的次数 */
+    attempts: number;
+    /** 最后一次请求的响应状态码，请求没有得到响应时为 null */
+    response_status: number | null;
+    /** 最后一次失败的原因 */
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+}
 
 export type StreamInputData = {
     input?: Record<string, unknown> | null;
     metadata?: Metadata;
     config?: RunnableConfig;
+    context?: Record<string, unknown>;
     checkpointId?: string;
-    checkpoint?: Omit<Checkpoint, 'thread_id'>;
+    /** checkpoint_ns 缺省时为根图的命名空间 '' */
+    checkpoint?: Partial<Omit<Checkpoint, 'thread_id'>>;
     checkpoint_during?: boolean;
     interruptBefore?: '*' | string[];
     interruptAfter?: '*' | string[];
@@ -40,6 +70,8 @@ export type StreamInputData = {
     webhook?: string;
     onDisconnect?: DisconnectMode;
     afterSeconds?: number;
+    /** run 的最大执行时间（秒），超时后 run 标记为 timeout */
+    timeoutSeconds?: number;
     ifNotExists?: 'create' | 'reject';
     command?: Command;
     onRunCreated?: (params: { run_id: string; thread_id?: string }) => void;
@@ -48,6 +80,13 @@ export type StreamInputData = {
     streamResumable?: boolean;
     temporary?: boolean;
 };
+/**
+ * 后台 run 保存在数据库中的参数，调度器领取 run 后按这些参数执行，进程重启后排队中的 run 不会丢失
+ */
+export type RunKwargs = Omit<StreamInputData, 'signal' | 'onRunCreated'> & {
+    /** run 在为无状态请求创建的临时 thread 上执行，结束后删除该 thread */
+    temporaryThread?: boolean;
+};
 /**
  * 兼容 LangGraph SDK 的接口定义，方便进行无侵入式的扩展
  */
@@ -61,6 +100,35 @@ export interface ILangGraphClient<TStateType = unknown> {
             sortBy?: AssistantSortBy;
             sortOrder?: SortOrder;
         }): Promise<Assistant[]>;
+        count(query?: { graphId?: string; metadata?: Metadata }): Promise<number>;
+        get(assistantId: string): Promise<Assistant>;
+        create(payload: {
+            graphId: string;
+            assistantId?: string;
+            config?: Config;
+            context?: unknown;
+            metadata?: Metadata;
+            ifExists?: OnConflictBehavior;
+            name?: string;
+            description?: string;
+        }): Promise<Assistant>;
+        update(
+            assistantId: string,
+            payload: {
+                graphId?: string;
+                config?: Config;
+                context?: unknown;
+                metadata?: Metadata;
+                name?: string;
+                description?: string;
+            },
+        ): Promise<Assistant>;
+        delete(assistantId: string): Promise<void>;
+        getVersions(
+            assistantId: string,
+            payload?: { metadata?: Metadata; limit?: number; offset?: number },
+        ): Promise<AssistantVersion[]>;
+        setLatest(assistantId: string, version: number): Promise<Assistant>;
         getGraph(assistantId: string, options?: { xray?: boolean | number }): Promise<AssistantGraph>;
     };
     threads: {
@@ -69,25 +137,67 @@ export interface ILangGraphClient<TStateType = unknown> {
             threadId?: string;
             ifExists?: OnConflictBehavior;
             graphId?: string;
-            // supersteps?: Array<{
-            //     updates: Array<{
-            //         values: unknown;
-            //         command?: Command;
-            //         as_node: string;
-            //     }>;
-            // }>;
+            supersteps?: Array<{
+                updates: Array<{
+                    values?: unknown;
+                    command?: Command;
+                    asNode?: string;
+                }>;
+            }>;
         }): Promise<Thread<TStateType>>;
         search(query?: {
             metadata?: Metadata;
+            values?: Record<string, unknown>;
+            ids?: string[];
             limit?: number;
             offset?: number;
             status?: ThreadStatus;
             sortBy?: ThreadSortBy;
             sortOrder?: SortOrder;
+            select?: ThreadSelectField[];
         }): Promise<Thread<TStateType>[]>;
+        count(query?: {
+            metadata?: Metadata;
+            values?: Record<string, unknown>;
+            ids?: string[];
+            status?: ThreadStatus;
+        }): Promise<number>;
         get(threadId: string): Promise<Thread<TStateType>>;
         delete(threadId: string): Promise<void>;
-        updateState(threadId: string, thread: Partial<Thread<TStateType>>): Promise<Pick<Config, 'configurable'>>;
+        copy(threadId: string): Promise<Thread<TStateType>>;
+        update(threadId: string, payload: { metadata?: Metadata }): Promise<Thread<TStateType>>;
+        prune(query: { before?: string; status?: ThreadStatus; metadata?: Metadata }): Promise<number>;
+        updateState(
+            threadId: string,
+            payload: {
+                values?: unknown;
+                asNode?: string;
+                checkpointId?: string;
+                checkpoint?: Partial<Omit<Checkpoint, 'thread_id'>>;
+                command?: Command;
+                supersteps?: Array<{
+                    updates: Array<{
+                        values?: unknown;
+                        command?: Command;
+                        asNode?: string;
+                    }>;
+                }>;
+            },
+        ): Promise<Pick<Config, 'configurable'>>;
+        getState(
+            threadId: string,
+            checkpoint?: Partial<Omit<Checkpoint, 'thread_id'>> | string,
+            options?: { subgraphs?: boolean },
+        ): Promise<ThreadState<TStateType>>;
+        getHistory(
+            threadId: string,
+            options?: {
+                limit?: number;
+                before?: Config | string;
+                metadata?: Metadata;
+                checkpoint?: Partial<Omit<Checkpoint, 'thread_id'>>;
+            },
+        ): Promise<ThreadState<TStateType>[]>;
     };
     runs: {
         list(
@@ -98,7 +208,12 @@ export interface ILangGraphClient<TStateType = unknown> {
                 status?: RunStatus;
             },
         ): Promise<Run[]>;
+        get(threadId: string, runId: string): Promise<Run>;
+        delete(threadId: string, runId: string): Promise<void>;
+        join(threadId: string, runId: string, options?: { signal?: AbortSignal }): Promise<unknown>;
 
+        create(threadId: string | null, assistantId: string, payload?: StreamInputData): Promise<Run>;
+        wait(threadId: string | null, assistantId: string, payload?: StreamInputData): Promise<unknown>;
         stream(threadId: string, assistantId: string, payload?: StreamInputData): AsyncGenerator<EventMessage>;
         joinStream(
             threadId: string,
@@ -114,4 +229,71 @@ export interface ILangGraphClient<TStateType = unknown> {
         ): AsyncGenerator<{ id?: string; event: StreamEvent; data: any }>;
         cancel(threadId: string, runId: string, wait?: boolean, action?: CancelAction): Promise<void>;
     };
+    crons: {
+        /**
+         * 创建 cron，每次触发都会创建新的 thread
+         * @param payload.metadata cron 的 metadata，也会作为触发的 run 的 metadata
+         * @param payload.payload 与创建 run 的请求体相同的参数（snake_case）
+         */
+        create(
+            assistantId: string,
+            payload: { schedule: string; endTime?: string; metadata?: Metadata; payload?: Record<string, unknown> },
+        ): Promise<Cron>;
+        /**
+         * 创建绑定到指定 thread 的 cron
+         */
+        createForThread(
+            threadId: string,
+            assistantId: string,
+            payload: { schedule: string; endTime?: string; metadata?: Metadata; payload?: Record<string, unknown> },
+        ): Promise<Cron>;
+        /**
+         * 更新 cron，metadata 与 payload 分别与原有的 metadata 和 run 参数合并
+         */
+        update(
+            cronId: string,
+            payload: {
+                schedule?: string;
+                endTime?: string | null;
+                metadata?: Metadata;
+                payload?: Record<string, unknown>;
+            },
+        ): Promise<Cron>;
+        delete(cronId: string): Promise<void>;
+        search(query?: {
+            assistantId?: string;
+            threadId?: string;
+            limit?: number;
+            offset?: number;
+            sortBy?: CronSortBy;
+            sortOrder?: SortOrder;
+        }): Promise<Cron[]>;
+        count(query?: { assistantId?: string; threadId?: string }): Promise<number>;
+    };
+    store: {
+        putItem(
+            namespace: string[],
+            key: string,
+            value: Record<string, any>,
+            options?: { index?: false | string[] },
+        ): Promise<void>;
+        getItem(namespace: string[], key: string): Promise<Item | null>;
+        deleteItem(namespace: string[], key: string): Promise<void>;
+        searchItems(
+            namespacePrefix: string[],
+            options?: {
+                filter?: Record<string, any>;
+                limit?: number;
+                offset?: number;
+                query?: string;
+            },
+        ): Promise<{ items: SearchItem[] }>;
+        listNamespaces(options?: {
+            prefix?: string[];
+            suffix?: string[];
+            maxDepth?: number;
+            limit?: number;
+            offset?: number;
+        }): Promise<{ namespaces: string[][] }>;
+    };
 }
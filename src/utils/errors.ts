@@ -0,0 +1,22 @@
+/**
+ * 带有 HTTP 状态码的错误，适配层会将其转换为对应状态码的响应
+ * Error carrying an HTTP status code, adapters turn it into a response with that status
+ */
+export class HTTPError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HTTPError';
+    }
+}
+
+/**
+ * run 超过最大执行时间，作为 cancelSignal 的中止原因
+ * Run exceeded its maximum duration, used as the abort reason of cancelSignal
+ */
+export class RunTimeoutError extends Error {
+    readonly code = 'run_timeout';
+    constructor(public timeoutSeconds: number) {
+        super(`Run timed out after ${timeoutSeconds} seconds.`);
+        this.name = 'TimeoutError';
+    }
+}
@@ -38,7 +38,7 @@ export async function getGraph(
         compiled.checkpointer = LangGraphGlobal.globalCheckPointer;
     }
 
-    compiled.store = options?.store ?? undefined;
+    compiled.store = options?.store ?? LangGraphGlobal.globalStore;
 
     return compiled;
 }
@@ -0,0 +1,5 @@
+/**
+ * 按 JSON 序列化结果比较，对象和数组按内容匹配，与数据库中 JSON 字段的比较语义一致
+ * Compare by JSON serialization so objects and arrays match by content, like JSON comparisons in the database
+ */
+export const isJsonEqual = (a: unknown, b: unknown) => a !== undefined && JSON.stringify(a) === JSON.stringify(b);
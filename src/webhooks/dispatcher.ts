@@ -0,0 +1,105 @@
+import { createHmac } from 'node:crypto';
+import type { BaseThreadsManager } from '../threads/index.js';
+import type { WebhookDelivery } from '../types.js';
+
+/**
+ * run 结束后向 webhook 推送最终的 run 与 thread values，失败时按指数退避重试
+ * Posts the final run and thread values to the webhook when a run finishes, retrying with exponential backoff
+ *
+ * 每次投递都会写入 webhook_deliveries，配置 WEBHOOK_SECRET 后请求头 X-Webhook-Signature 为请求体的 HMAC-SHA256 签名
+ * Every delivery is logged to webhook_deliveries; with WEBHOOK_SECRET set, X-Webhook-Signature carries the HMAC-SHA256 of the body
+ */
+export class WebhookDispatcher {
+    /**
+     * 构造函数
+     * Constructor
+     * @param maxAttempts 最多尝试的次数 / Maximum number of attempts
+     * @param retryDelay 第一次重试前等待的毫秒数，之后每次翻倍 / Delay before the first retry in milliseconds, doubled each time
+     * @param secret 签名使用的密钥 / Secret used for signing
+     * @param timeout 单次请求的超时时间（毫秒）/ Timeout of a single request in milliseconds
+     */
+    constructor(
+        readonly maxAttempts: number = process.env.WEBHOOK_MAX_ATTEMPTS
+            ? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS)
+            : 5,
+        readonly retryDelay: number = process.env.WEBHOOK_RETRY_DELAY
+            ? parseInt(process.env.WEBHOOK_RETRY_DELAY)
+            : 1000,
+        readonly secret: string | undefined = process.env.WEBHOOK_SECRET,
+        readonly timeout: number = 10000,
+    ) {}
+
+    /**
+     * 计算请求体的签名，没有配置密钥时返回 undefined
+     * Sign the request body, returns undefined when no secret is configured
+     */
+    sign(body: string): string | undefined {
+        if (!this.secret) return undefined;
+        return `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    }
+
+    /**
+     * 记录投递并在后台发送，返回投递记录，不会抛出异常
+     * Log the delivery and send it in the background, returns the delivery record and never throws
+     * @param threads thread 管理器 / Threads manager
+     * @param runId 已经结束的 run / The finished run
+     * @param url webhook 地址 / Webhook URL
+     */
+    async send(threads: BaseThreadsManager, runId: string, url: string): Promise<WebhookDelivery | undefined> {
+        try {
+            // 在返回前读取 run 与 thread，临时 thread 随后可能被删除
+            const run = await threads.getRun(runId);
+            const thread = await threads.get(run.thread_id).catch(() => null);
+            const body = JSON.stringify({
+                ...run,
+                values: thread?.values ?? null,
+                webhook_sent_at: new Date().toISOString(),
+            });
+            const delivery = await threads.createWebhookDelivery({ runId, threadId: run.thread_id, url });
+            this.deliver(threads, delivery, body).catch((error) => {
+                console.error(`Webhook delivery ${delivery.delivery_id} error:`, error);
+            });
+            return delivery;
+        } catch (error) {
+            console.error(`Webhook for run ${runId} error:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 发送请求直到成功或次数用完，每次尝试后更新投递记录
+     * Post until it succeeds or attempts run out, updating the delivery after every attempt
+     */
+    private async deliver(threads: BaseThreadsManager, delivery: WebhookDelivery, body: string): Promise<void> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const signature = this.sign(body);
+        if (signature) headers['X-Webhook-Signature'] = signature;
+
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            let responseStatus: number | null = null;
+            let error: string | null = null;
+            try {
+                const response = await fetch(delivery.url, {
+                    method: 'POST',
+                    headers,
+                    body,
+                    signal: AbortSignal.timeout(this.timeout),
+                });
+                responseStatus = response.status;
+                if (!response.ok) error = `Webhook responded with status ${response.status}`;
+            } catch (e) {
+                error = e instanceof Error ? e.message : String(e);
+            }
+
+            const finished = !error || attempt === this.maxAttempts;
+            await threads.updateWebhookDelivery(delivery.delivery_id, {
+                status: !error ? 'success' : finished ? 'failed' : 'pending',
+                attempts: attempt,
+                responseStatus,
+                error,
+            });
+            if (finished) return;
+            await new Promise((resolve) => setTimeout(resolve, this.retryDelay * 2 ** (attempt - 1)));
+        }
+    }
+}
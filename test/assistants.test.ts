@@ -0,0 +1,129 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Annotation, StateGraph } from '@langchain/langgraph';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { BaseAssistantsManager } from '../src/assistants/index';
+import { createEndpoint, registerGraph } from '../src/createEndpoint';
+import { LangGraphGlobal } from '../src/global';
+import { MemoryAssistantsManager } from '../src/storage/memory/assistants';
+import { KyselyAssistantsManager } from '../src/storage/kysely/assistants';
+
+/**
+ * 所有 assistant 管理器共用的一致性测试，PostgreSQL 只在设置 TEST_DATABASE_URL 时运行
+ */
+const adapters: Array<{
+    name: string;
+    skip?: boolean;
+    create: () => Promise<{ assistants: BaseAssistantsManager; close?: () => Promise<void> }>;
+}> = [
+    {
+        name: 'memory',
+        create: async () => ({ assistants: new MemoryAssistantsManager() }),
+    },
+    {
+        name: 'sqlite',
+        create: async () => {
+            const { SqliteSaver } = await import('../src/storage/sqlite/checkpoint');
+            const { SQLiteAdapter } = await import('../src/storage/kysely/sqlite-adapter');
+            const dir = mkdtempSync(join(tmpdir(), 'langgraph-test-'));
+            const saver = await SqliteSaver.fromConnStringAsync(join(dir, 'test.db'));
+            const assistants = new KyselyAssistantsManager(new SQLiteAdapter(saver.db));
+            await assistants.setup();
+            return {
+                assistants,
+                close: async () => {
+                    await saver.db.destroy();
+                    rmSync(dir, { recursive: true, force: true });
+                },
+            };
+        },
+    },
+    {
+        name: 'postgres',
+        skip: !process.env.TEST_DATABASE_URL,
+        create: async () => {
+            const { Pool } = await import('pg');
+            const { PostgresAdapter } = await import('../src/storage/kysely/pg-adapter');
+            const pool = new Pool({ connectionString: process.env.TEST_DATABASE_URL });
+            const adapter = new PostgresAdapter(pool);
+            const assistants = new KyselyAssistantsManager(adapter);
+            await assistants.setup();
+            return { assistants, close: () => adapter.db.destroy() };
+        },
+    },
+];
+
+for (const adapter of adapters) {
+    describe.skipIf(adapter.skip)(`assistants conformance: ${adapter.name}`, () => {
+        let assistants: BaseAssistantsManager;
+        let close: (() => Promise<void>) | undefined;
+
+        beforeAll(async () => {
+            ({ assistants, close } = await adapter.create());
+        });
+
+        afterAll(async () => {
+            await close?.();
+        });
+
+        describe('create', () => {
+            it('keeps the first assistant when the same id is created concurrently', async () => {
+                const assistantId = randomUUID();
+                const created = await Promise.all(
+                    ['a', 'b', 'c'].map((name) =>
+                        assistants.create({ assistantId, graphId: 'agent', name, ifExists: 'do_nothing' }),
+                    ),
+                );
+                const stored = await assistants.get(assistantId);
+                for (const assistant of created) {
+                    expect(assistant.name).toBe(stored.name);
+                }
+                expect(await assistants.getVersions(assistantId)).toHaveLength(1);
+            });
+
+            it('rejects an existing id without do_nothing', async () => {
+                const assistant = await assistants.create({ graphId: 'agent' });
+                await expect(
+                    assistants.create({ assistantId: assistant.assistant_id, graphId: 'agent' }),
+                ).rejects.toMatchObject({ status: 409 });
+            });
+        });
+
+        describe('search', () => {
+            it('matches nested metadata by content', async () => {
+                const suite = randomUUID();
+                const assistant = await assistants.create({
+                    graphId: 'agent',
+                    metadata: { suite, nested: { on: true }, tags: ['x'] },
+                });
+                await assistants.create({ graphId: 'agent', metadata: { suite, nested: { on: false }, tags: ['x'] } });
+
+                const found = await assistants.search({ metadata: { suite, nested: { on: true }, tags: ['x'] } });
+                expect(found.map((a) => a.assistant_id)).toEqual([assistant.assistant_id]);
+            });
+        });
+    });
+}
+
+describe('default assistants', () => {
+    const client = createEndpoint();
+
+    beforeAll(async () => {
+        const graph = new StateGraph(Annotation.Root({ value: Annotation<string>() }))
+            .addNode('echo', (state) => state)
+            .addEdge('__start__', 'echo')
+            .compile();
+        await registerGraph('echo', graph);
+        await LangGraphGlobal.initGlobal();
+    });
+
+    it('recreates the default assistant of a graph after it is deleted', async () => {
+        expect((await client.assistants.get('echo')).graph_id).toBe('echo');
+        await client.assistants.delete('echo');
+
+        const assistant = await client.assistants.get('echo');
+        expect(assistant).toMatchObject({ assistant_id: 'echo', graph_id: 'echo', metadata: { created_by: 'system' } });
+    });
+});
@@ -0,0 +1,110 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Annotation, MemorySaver as LangGraphMemorySaver, StateGraph } from '@langchain/langgraph';
+import type { BaseCheckpointSaver } from '@langchain/langgraph-checkpoint';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { deleteCheckpointsAfter } from '../src/graph/checkpoints';
+import { MemorySaver } from '../src/storage/memory/checkpoint';
+
+/**
+ * 回滚时删除 checkpoint，SQLite 与内存 checkpointer 直接删除，其他 checkpointer 清空后写回
+ */
+const savers: Array<{
+    name: string;
+    create: () => Promise<{ checkpointer: BaseCheckpointSaver; close?: () => Promise<void> }>;
+}> = [
+    {
+        name: 'memory',
+        create: async () => ({ checkpointer: new MemorySaver() }),
+    },
+    {
+        name: 'sqlite',
+        create: async () => {
+            const { SqliteSaver } = await import('../src/storage/sqlite/checkpoint');
+            const dir = mkdtempSync(join(tmpdir(), 'langgraph-test-'));
+            const checkpointer = await SqliteSaver.fromConnStringAsync(join(dir, 'test.db'));
+            return {
+                checkpointer,
+                close: async () => {
+                    await checkpointer.db.destroy();
+                    rmSync(dir, { recursive: true, force: true });
+                },
+            };
+        },
+    },
+    {
+        // 没有 deleteCheckpointsAfter 的 checkpointer
+        name: 'fallback',
+        create: async () => ({ checkpointer: new LangGraphMemorySaver() }),
+    },
+];
+
+const State = Annotation.Root({
+    steps: Annotation<string[]>({ reducer: (a, b) => a.concat(b), default: () => [] }),
+});
+
+for (const saver of savers) {
+    describe(`deleteCheckpointsAfter: ${saver.name}`, () => {
+        let checkpointer: BaseCheckpointSaver;
+        let close: (() => Promise<void>) | undefined;
+
+        beforeAll(async () => {
+            ({ checkpointer, close } = await saver.create());
+        });
+
+        afterAll(async () => {
+            await close?.();
+        });
+
+        const setup = async () => {
+            const graph = new StateGraph(State)
+                .addNode('step', () => ({ steps: ['step'] }))
+                .addEdge('__start__', 'step')
+                .compile({ checkpointer });
+            const config = { configurable: { thread_id: randomUUID() } };
+            const ids = async () => {
+                const result: string[] = [];
+                for await (const tuple of checkpointer.list(config)) result.push(tuple.checkpoint.id);
+                return result;
+            };
+            return { graph, config, ids };
+        };
+
+        it('keeps the checkpoints up to the given one', async () => {
+            const { graph, config, ids } = await setup();
+            await graph.invoke({ steps: [] }, config);
+            const before = await ids();
+            await graph.invoke({ steps: [] }, config);
+            expect((await ids()).length).toBeGreaterThan(before.length);
+
+            await deleteCheckpointsAfter(checkpointer, config.configurable.thread_id, before[0]);
+
+            expect(await ids()).toEqual(before);
+            expect((await graph.getState(config)).values).toEqual({ steps: ['step'] });
+        });
+
+        it('deletes every checkpoint without a previous one', async () => {
+            const { graph, config, ids } = await setup();
+            await graph.invoke({ steps: [] }, config);
+
+            await deleteCheckpointsAfter(checkpointer, config.configurable.thread_id, null);
+
+            expect(await ids()).toEqual([]);
+            expect(await checkpointer.getTuple(config)).toBeUndefined();
+        });
+
+        it('leaves other threads alone', async () => {
+            const first = await setup();
+            const second = await setup();
+            await first.graph.invoke({ steps: [] }, first.config);
+            await second.graph.invoke({ steps: [] }, second.config);
+            const kept = await second.ids();
+
+            await deleteCheckpointsAfter(checkpointer, first.config.configurable.thread_id, null);
+
+            expect(await second.ids()).toEqual(kept);
+        });
+    });
+}
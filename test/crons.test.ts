@@ -0,0 +1,101 @@
+import { Annotation, StateGraph } from '@langchain/langgraph';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { registerGraph } from '../src/createEndpoint';
+import { handleRequest } from '../src/adapter/fetch/index';
+import type { LangGraphServerContext } from '../src/adapter/fetch/context';
+import { MemoryThreadsManager } from '../src/storage/memory/threads';
+
+/**
+ * 通过 HTTP 接口创建、更新与搜索 cron
+ */
+const graph = new StateGraph(Annotation.Root({ value: Annotation<string>() }))
+    .addNode('echo', (state) => state)
+    .addEdge('__start__', 'echo')
+    .compile();
+
+const request = async (method: string, path: string, body?: unknown, context?: LangGraphServerContext) => {
+    const response = await handleRequest(
+        new Request(`http://localhost${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+        context,
+    );
+    return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+/** 每年触发一次，测试期间不会执行 */
+const schedule = '0 0 1 1 *';
+
+describe('crons', () => {
+    beforeAll(async () => {
+        await registerGraph('cron', graph);
+    });
+
+    it('reports the total number of matching crons when searching a page', async () => {
+        const { body: thread } = await request('POST', '/threads', { graph_id: 'cron' });
+        for (let i = 0; i < 3; i++) {
+            await request('POST', `/threads/${thread.thread_id}/runs/crons`, { assistant_id: 'cron', schedule });
+        }
+
+        const { body, headers } = await request('POST', '/runs/crons/search', {
+            thread_id: thread.thread_id,
+            limit: 1,
+        });
+        expect(body).toHaveLength(1);
+        expect(headers.get('X-Pagination-Total')).toBe('3');
+    });
+
+    it('keeps metadata apart from the run payload and applies the request context on update', async () => {
+        const { body: created } = await request(
+            'POST',
+            '/runs/crons',
+            {
+                assistant_id: 'cron',
+                schedule,
+                metadata: { owner: 'alice' },
+                config: { configurable: { model: 'small' } },
+            },
+            { langgraph_context: { tenant: 'a' } },
+        );
+        expect(created.metadata).toEqual({ owner: 'alice' });
+        expect(created.payload.metadata).toBeUndefined();
+
+        const { status, body: updated } = await request(
+            'PATCH',
+            `/runs/crons/${created.cron_id}`,
+            { metadata: { team: 'core' } },
+            { langgraph_context: { tenant: 'b' } },
+        );
+        expect(status).toBe(200);
+        expect(updated.metadata).toEqual({ owner: 'alice', team: 'core' });
+        expect(updated.payload.metadata).toBeUndefined();
+        expect(updated.payload.config.configurable).toEqual({ model: 'small', tenant: 'b' });
+    });
+
+    it('leaves the run payload untouched when only metadata changes', async () => {
+        const { body: created } = await request('POST', '/runs/crons', {
+            assistant_id: 'cron',
+            schedule,
+            input: { value: 'x' },
+        });
+
+        const { body: updated } = await request('PATCH', `/runs/crons/${created.cron_id}`, {
+            metadata: { team: 'core' },
+        });
+        expect(updated.metadata).toEqual({ team: 'core' });
+        expect(updated.payload).toEqual(created.payload);
+    });
+
+    it('lets only one of several concurrent claims take the same tick', async () => {
+        const threads = new MemoryThreadsManager();
+        const nextRunDate = new Date(Date.now() + 60_000).toISOString();
+        const cron = await threads.createCron({ assistantId: 'cron', schedule, payload: {}, nextRunDate });
+
+        const claimed = await Promise.all(
+            [0, 1, 2].map(() => threads.claimCron(cron.cron_id, nextRunDate, new Date().toISOString())),
+        );
+        expect(claimed.filter(Boolean)).toHaveLength(1);
+    });
+});
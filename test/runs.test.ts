@@ -0,0 +1,467 @@
+import { Annotation, StateGraph } from '@langchain/langgraph';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createEndpoint, registerGraph } from '../src/createEndpoint';
+import { handleRequest } from '../src/adapter/fetch/index';
+import { CronScheduler } from '../src/crons/scheduler';
+import { LangGraphGlobal } from '../src/global';
+import { RunScheduler } from '../src/queue/run_scheduler';
+import { HTTPError } from '../src/utils/errors';
+
+/**
+ * 在内存存储上用一个很小的图测试 run 的调度、取消与流式输出
+ */
+const State = Annotation.Root({
+    steps: Annotation<string[]>({ reducer: (a, b) => a.concat(b), default: () => [] }),
+    /** 每个节点执行的毫秒数 */
+    delay: Annotation<number>(),
+});
+
+/** 可以被 signal 中止的等待 */
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        });
+    });
+
+const graph = new StateGraph(State)
+    .addNode('first', async (state, config) => {
+        await sleep(state.delay ?? 0, config.signal);
+        return { steps: ['first'] };
+    })
+    .addNode('second', async (state, config) => {
+        await sleep(state.delay ?? 0, config.signal);
+        return { steps: ['second'] };
+    })
+    .addEdge('__start__', 'first')
+    .addEdge('first', 'second')
+    .addEdge('second', '__end__')
+    .compile();
+
+const client = createEndpoint();
+
+const waitForStatus = (threadId: string, runId: string, status: string) =>
+    vi.waitFor(
+        async () => {
+            const run = await client.runs.get(threadId, runId);
+            expect(run.status).toBe(status);
+            return run;
+        },
+        { timeout: 3000, interval: 10 },
+    );
+
+/** 收集 joinStream 的事件，忽略心跳 */
+const collectEvents = async (threadId: string, runId: string, lastEventId?: string) => {
+    const events: { id?: string; event: string }[] = [];
+    for await (const { id, event } of client.runs.joinStream(threadId, runId, { lastEventId })) {
+        events.push({ id, event: event as string });
+    }
+    return events;
+};
+
+describe('runs', () => {
+    beforeAll(async () => {
+        await registerGraph('steps', graph);
+        await LangGraphGlobal.initGlobal();
+    });
+
+    describe('wait', () => {
+        it('returns the final values', async () => {
+            const thread = await client.threads.create();
+            const values = await client.runs.wait(thread.thread_id, 'steps', { input: { delay: 0 } });
+            expect(values).toEqual({ steps: ['first', 'second'], delay: 0 });
+        });
+
+        it('returns the values reached before the run was cancelled', async () => {
+            const thread = await client.threads.create();
+            const result = client.runs.wait(thread.thread_id, 'steps', { input: { delay: 200 } });
+            const [run] = await vi.waitFor(async () => {
+                const runs = await client.runs.list(thread.thread_id, { status: 'running' });
+                expect(runs).toHaveLength(1);
+                return runs;
+            });
+            await vi.waitFor(async () => {
+                expect((await client.threads.get(thread.thread_id)).values).toMatchObject({ steps: ['first'] });
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true);
+
+            expect(await result).toEqual({ steps: ['first'], delay: 200 });
+            expect((await client.runs.get(thread.thread_id, run.run_id)).status).toBe('interrupted');
+        });
+
+        it('returns the thread values when the run is cancelled before it starts', async () => {
+            const thread = await client.threads.create();
+            await client.runs.wait(thread.thread_id, 'steps', { input: { delay: 0 } });
+            const blocking = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 100 } });
+            const result = client.runs.wait(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                multitaskStrategy: 'enqueue',
+            });
+            const run = await vi.waitFor(async () => {
+                const runs = await client.runs.list(thread.thread_id, { status: 'pending' });
+                const queued = runs.find((run) => run.run_id !== blocking.run_id);
+                expect(queued).toBeDefined();
+                return queued!;
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true);
+
+            expect(await result).toMatchObject({ steps: expect.arrayContaining(['first', 'second']) });
+            await client.runs.join(thread.thread_id, blocking.run_id);
+        });
+
+        it('fails with 504 when the run times out', async () => {
+            const thread = await client.threads.create();
+            const error = await client.runs
+                .wait(thread.thread_id, 'steps', { input: { delay: 500 }, timeoutSeconds: 0.05 })
+                .catch((e) => e);
+            expect(error).toBeInstanceOf(HTTPError);
+            expect(error.status).toBe(504);
+            const [run] = await client.runs.list(thread.thread_id);
+            expect(run.status).toBe('timeout');
+        });
+    });
+
+    describe('scheduler', () => {
+        it('runs background runs through the scheduler', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 10 } });
+            expect(run.status).toBe('pending');
+
+            await waitForStatus(thread.thread_id, run.run_id, 'success');
+            expect((await client.threads.get(thread.thread_id)).values).toMatchObject({ steps: ['first', 'second'] });
+        });
+
+        it('limits how many runs execute at once', async () => {
+            const scheduler = LangGraphGlobal.globalRunScheduler;
+            scheduler.stop();
+            LangGraphGlobal.globalRunScheduler = new RunScheduler(1, 50);
+            LangGraphGlobal.globalRunScheduler.start();
+            try {
+                const a = await client.threads.create();
+                const b = await client.threads.create();
+                const first = await client.runs.create(a.thread_id, 'steps', { input: { delay: 100 } });
+                const second = await client.runs.create(b.thread_id, 'steps', { input: { delay: 0 } });
+
+                await waitForStatus(a.thread_id, first.run_id, 'running');
+                expect((await client.runs.get(b.thread_id, second.run_id)).status).toBe('pending');
+                await waitForStatus(a.thread_id, first.run_id, 'success');
+                await waitForStatus(b.thread_id, second.run_id, 'success');
+            } finally {
+                LangGraphGlobal.globalRunScheduler.stop();
+                LangGraphGlobal.globalRunScheduler = scheduler;
+                scheduler.start();
+            }
+        });
+
+        it('marks a run that exceeds its timeout', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 500 },
+                timeoutSeconds: 0.05,
+            });
+
+            await waitForStatus(thread.thread_id, run.run_id, 'timeout');
+            const errors: unknown[] = [];
+            for await (const { event, data } of client.runs.joinStream(thread.thread_id, run.run_id)) {
+                if (event === ('__stream_error__' as string)) errors.push(data);
+            }
+            expect(errors).toEqual([expect.objectContaining({ code: 'run_timeout' })]);
+        });
+    });
+
+    describe('multitask', () => {
+        it('rejects a run on a busy thread by default', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+
+            await expect(client.runs.create(thread.thread_id, 'steps', { input: { delay: 0 } })).rejects.toMatchObject({
+                status: 409,
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true);
+        });
+
+        it('interrupts the running run and keeps its progress', async () => {
+            const thread = await client.threads.create();
+            const first = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+            await vi.waitFor(async () => {
+                expect((await client.threads.getState(thread.thread_id)).values).toMatchObject({ steps: ['first'] });
+            });
+
+            const second = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                multitaskStrategy: 'interrupt',
+            });
+
+            expect((await client.runs.get(thread.thread_id, first.run_id)).status).toBe('interrupted');
+            await waitForStatus(thread.thread_id, second.run_id, 'success');
+            expect((await client.threads.get(thread.thread_id)).values).toMatchObject({
+                steps: ['first', 'first', 'second'],
+            });
+        });
+
+        it('rolls back the running run before starting the new one', async () => {
+            const thread = await client.threads.create();
+            const first = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+            await vi.waitFor(async () => {
+                expect((await client.threads.getState(thread.thread_id)).values).toMatchObject({ steps: ['first'] });
+            });
+
+            const second = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                multitaskStrategy: 'rollback',
+            });
+
+            await expect(client.runs.get(thread.thread_id, first.run_id)).rejects.toMatchObject({ status: 404 });
+            await waitForStatus(thread.thread_id, second.run_id, 'success');
+            expect((await client.threads.get(thread.thread_id)).values).toEqual({
+                steps: ['first', 'second'],
+                delay: 0,
+            });
+        });
+
+        it('enqueues a run behind the running one', async () => {
+            const thread = await client.threads.create();
+            const first = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 50 } });
+            const second = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                multitaskStrategy: 'enqueue',
+            });
+
+            await waitForStatus(thread.thread_id, first.run_id, 'running');
+            expect((await client.runs.get(thread.thread_id, second.run_id)).status).toBe('pending');
+            await waitForStatus(thread.thread_id, second.run_id, 'success');
+            expect((await client.runs.get(thread.thread_id, first.run_id)).status).toBe('success');
+            expect((await client.threads.get(thread.thread_id)).values).toMatchObject({
+                steps: ['first', 'second', 'first', 'second'],
+            });
+        });
+    });
+
+    describe('cancel', () => {
+        it('returns once the run has stopped when waiting', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+            await waitForStatus(thread.thread_id, run.run_id, 'running');
+
+            await client.runs.cancel(thread.thread_id, run.run_id, true);
+
+            expect((await client.runs.get(thread.thread_id, run.run_id)).status).toBe('interrupted');
+            expect((await client.threads.get(thread.thread_id)).status).toBe('idle');
+        });
+
+        it('fails with 404 for a run of another thread', async () => {
+            const thread = await client.threads.create();
+            const other = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 0 } });
+
+            await expect(client.runs.cancel(other.thread_id, run.run_id)).rejects.toMatchObject({ status: 404 });
+            await expect(client.runs.cancel(thread.thread_id, crypto.randomUUID())).rejects.toMatchObject({
+                status: 404,
+            });
+            await waitForStatus(thread.thread_id, run.run_id, 'success');
+        });
+
+        it('fails with 409 for a finished run', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 0 } });
+            await waitForStatus(thread.thread_id, run.run_id, 'success');
+
+            await expect(client.runs.cancel(thread.thread_id, run.run_id, true)).rejects.toMatchObject({
+                status: 409,
+            });
+        });
+    });
+
+    describe('join', () => {
+        it('waits for the run and returns the thread values', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 50 } });
+
+            expect(await client.runs.join(thread.thread_id, run.run_id)).toEqual({
+                steps: ['first', 'second'],
+                delay: 50,
+            });
+            expect((await client.runs.get(thread.thread_id, run.run_id)).status).toBe('success');
+            expect(await client.runs.join(thread.thread_id, run.run_id)).toMatchObject({ steps: ['first', 'second'] });
+        });
+    });
+
+    describe('joinStream', () => {
+        it('resumes after the last event id', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 50 } });
+
+            const events = await collectEvents(thread.thread_id, run.run_id);
+            expect(events.length).toBeGreaterThan(3);
+            expect(events[0].event).toBe('metadata');
+
+            expect(await collectEvents(thread.thread_id, run.run_id, events[1].id)).toEqual(events.slice(2));
+        });
+
+        it('resumes after the Last-Event-ID header', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 0 } });
+            const events = await collectEvents(thread.thread_id, run.run_id);
+
+            const response = await handleRequest(
+                new Request(`http://localhost/threads/${thread.thread_id}/runs/${run.run_id}/stream`, {
+                    headers: { 'Last-Event-ID': events[1].id! },
+                }),
+            );
+            const ids = [...(await response.text()).matchAll(/^id: (.+)$/gm)].map((match) => match[1]);
+            expect(ids).toEqual(events.slice(2).map((e) => e.id));
+        });
+    });
+
+    describe('crons', () => {
+        it('starts one run per tick when several schedulers claim the same cron', async () => {
+            const thread = await client.threads.create();
+            const cron = await client.crons.createForThread(thread.thread_id, 'steps', {
+                schedule: '0 0 1 1 *',
+                // 重复领取时第二个 run 会排队而不是被拒绝
+                payload: { input: { delay: 0 }, multitask_strategy: 'enqueue' },
+            });
+            const now = new Date(cron.next_run_date!);
+
+            await Promise.all([new CronScheduler().tick(now), new CronScheduler().tick(now)]);
+
+            const runs = await client.runs.list(thread.thread_id);
+            expect(runs).toHaveLength(1);
+            expect(runs[0].metadata).toMatchObject({ cron_id: cron.cron_id });
+            const [updated] = await client.crons.search({ threadId: thread.thread_id });
+            expect(new Date(updated.next_run_date!).getTime()).toBeGreaterThan(now.getTime());
+            await waitForStatus(thread.thread_id, runs[0].run_id, 'success');
+        });
+    });
+
+    describe('rollback', () => {
+        const checkpointIds = async (threadId: string) =>
+            (await client.threads.getHistory(threadId, { limit: 100 })).map((state) => state.checkpoint.checkpoint_id);
+
+        it('keeps the checkpoints written before the run', async () => {
+            const thread = await client.threads.create();
+            await client.runs.wait(thread.thread_id, 'steps', { input: { delay: 0 } });
+            const before = await checkpointIds(thread.thread_id);
+
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+            await vi.waitFor(async () => {
+                expect((await client.threads.getState(thread.thread_id)).values).toMatchObject({
+                    steps: ['first', 'second', 'first'],
+                });
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true, 'rollback');
+
+            expect(await checkpointIds(thread.thread_id)).toEqual(before);
+            expect((await client.threads.get(thread.thread_id)).values).toEqual({
+                steps: ['first', 'second'],
+                delay: 0,
+            });
+            await expect(client.runs.get(thread.thread_id, run.run_id)).rejects.toMatchObject({ status: 404 });
+        });
+
+        it('returns the restored values to a waiting caller', async () => {
+            const thread = await client.threads.create();
+            await client.runs.wait(thread.thread_id, 'steps', { input: { delay: 0 } });
+            const result = client.runs.wait(thread.thread_id, 'steps', { input: { delay: 200 } });
+            const [run] = await vi.waitFor(async () => {
+                const runs = await client.runs.list(thread.thread_id, { status: 'running' });
+                expect(runs).toHaveLength(1);
+                return runs;
+            });
+            await vi.waitFor(async () => {
+                expect((await client.threads.get(thread.thread_id)).values).toMatchObject({ delay: 200 });
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true, 'rollback');
+
+            expect(await result).toEqual({ steps: ['first', 'second'], delay: 0 });
+        });
+    });
+
+    describe('delayed runs', () => {
+        it('stays pending until the scheduled start', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                afterSeconds: 0.5,
+            });
+            expect(new Date(run.created_at).getTime()).toBeGreaterThan(Date.now() + 300);
+
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            expect((await client.runs.get(thread.thread_id, run.run_id)).status).toBe('pending');
+
+            await waitForStatus(thread.thread_id, run.run_id, 'success');
+            expect((await client.threads.get(thread.thread_id)).values).toMatchObject({ steps: ['first', 'second'] });
+        });
+
+        it('is removed and never starts once cancelled', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', {
+                input: { delay: 0 },
+                afterSeconds: 0.2,
+            });
+            await client.runs.cancel(thread.thread_id, run.run_id, true);
+
+            await expect(client.runs.get(thread.thread_id, run.run_id)).rejects.toMatchObject({ status: 404 });
+            await new Promise((resolve) => setTimeout(resolve, 400));
+            expect(await client.runs.list(thread.thread_id)).toEqual([]);
+            expect((await client.threads.get(thread.thread_id)).values).toBeNull();
+        });
+    });
+
+    describe('disconnect', () => {
+        it('cancels the streamed run when a client under a base path disconnects', async () => {
+            const thread = await client.threads.create();
+            const controller = new AbortController();
+            const response = await handleRequest(
+                new Request(`http://localhost/api/threads/${thread.thread_id}/runs/stream`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ assistant_id: 'steps', input: { delay: 300 }, on_disconnect: 'cancel' }),
+                    signal: controller.signal,
+                }),
+            );
+            expect(response.status).toBe(200);
+            const reader = response.body!.getReader();
+            await reader.read();
+            const [run] = await client.runs.list(thread.thread_id);
+
+            controller.abort();
+            await reader.cancel();
+
+            await waitForStatus(thread.thread_id, run.run_id, 'interrupted');
+        });
+    });
+
+    describe('threads.delete', () => {
+        it('stops the running run before deleting the thread and its checkpoints', async () => {
+            const thread = await client.threads.create();
+            const run = await client.runs.create(thread.thread_id, 'steps', { input: { delay: 200 } });
+            await waitForStatus(thread.thread_id, run.run_id, 'running');
+
+            await client.threads.delete(thread.thread_id);
+
+            await expect(client.threads.get(thread.thread_id)).rejects.toThrow('not found');
+            const checkpoint = await LangGraphGlobal.globalCheckPointer.getTuple({
+                configurable: { thread_id: thread.thread_id, checkpoint_ns: '' },
+            });
+            expect(checkpoint).toBeUndefined();
+        });
+
+        it('deletes the temporary thread of a stateless run that removes it when stopped', async () => {
+            for (const payload of [{ input: { delay: 200 } }, { input: { delay: 0 }, afterSeconds: 10 }]) {
+                const run = await client.runs.create(null, 'steps', payload);
+                if (!payload.afterSeconds) await waitForStatus(run.thread_id, run.run_id, 'running');
+
+                await client.threads.delete(run.thread_id);
+
+                await expect(client.threads.get(run.thread_id)).rejects.toThrow('not found');
+            }
+        });
+
+        it('fails for a missing thread', async () => {
+            await expect(client.threads.delete(crypto.randomUUID())).rejects.toThrow('not found');
+        });
+    });
+});
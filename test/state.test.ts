@@ -0,0 +1,95 @@
+import { Annotation, StateGraph } from '@langchain/langgraph';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { registerGraph } from '../src/createEndpoint';
+import { handleRequest } from '../src/adapter/fetch/index';
+
+/**
+ * 通过 HTTP 接口更新 thread 的状态
+ */
+const State = Annotation.Root({
+    steps: Annotation<string[]>({ reducer: (a, b) => a.concat(b), default: () => [] }),
+});
+
+const graph = new StateGraph(State)
+    .addNode('first', () => ({ steps: ['first'] }))
+    .addNode('second', () => ({ steps: ['second'] }))
+    .addEdge('__start__', 'first')
+    .addEdge('first', 'second')
+    .addEdge('second', '__end__')
+    .compile();
+
+const request = async (method: string, path: string, body?: unknown) => {
+    const response = await handleRequest(
+        new Request(`http://localhost${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+    );
+    return { status: response.status, body: await response.json() };
+};
+
+const createThread = async () => {
+    const { body } = await request('POST', '/threads', { graph_id: 'state' });
+    return body.thread_id as string;
+};
+
+describe('POST /threads/:thread_id/state', () => {
+    beforeAll(async () => {
+        await registerGraph('state', graph);
+    });
+
+    it('updates the state with values', async () => {
+        const threadId = await createThread();
+        const { status } = await request('POST', `/threads/${threadId}/state`, {
+            values: { steps: ['manual'] },
+            as_node: 'first',
+        });
+        expect(status).toBe(200);
+
+        const { body: state } = await request('GET', `/threads/${threadId}/state`);
+        expect(state.values).toEqual({ steps: ['manual'] });
+        expect(state.next).toEqual(['second']);
+    });
+
+    it('applies a command', async () => {
+        const threadId = await createThread();
+        const { status } = await request('POST', `/threads/${threadId}/state`, {
+            command: { update: { steps: ['command'] } },
+            as_node: 'first',
+        });
+        expect(status).toBe(200);
+
+        const { body: state } = await request('GET', `/threads/${threadId}/state`);
+        expect(state.values).toEqual({ steps: ['command'] });
+        expect(state.next).toEqual(['second']);
+    });
+
+    it('applies supersteps in order', async () => {
+        const threadId = await createThread();
+        const { status } = await request('POST', `/threads/${threadId}/state`, {
+            supersteps: [
+                { updates: [{ values: { steps: ['a'] }, as_node: 'first' }] },
+                { updates: [{ values: { steps: ['b'] }, as_node: 'second' }] },
+            ],
+        });
+        expect(status).toBe(200);
+
+        const { body: state } = await request('GET', `/threads/${threadId}/state`);
+        expect(state.values).toEqual({ steps: ['a', 'b'] });
+        const { body: thread } = await request('GET', `/threads/${threadId}`);
+        expect(thread.values).toEqual({ steps: ['a', 'b'] });
+        const { body: history } = await request('POST', `/threads/${threadId}/history`, {});
+        expect(history.map((s: { metadata: { source: string } }) => s.metadata.source)).toEqual(['update', 'update']);
+    });
+
+    it('rejects values together with a command', async () => {
+        const threadId = await createThread();
+        const { status } = await request('POST', `/threads/${threadId}/state`, {
+            values: { steps: ['manual'] },
+            command: { update: { steps: ['command'] } },
+            as_node: 'first',
+        });
+        expect(status).toBe(400);
+    });
+});
@@ -0,0 +1,263 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { BaseThreadsManager } from '../src/threads/index';
+import { MemoryThreadsManager } from '../src/storage/memory/threads';
+import { KyselyThreadsManager } from '../src/storage/kysely/threads';
+
+/**
+ * 所有 thread 管理器共用的一致性测试，PostgreSQL 只在设置 TEST_DATABASE_URL 时运行
+ */
+const adapters: Array<{
+    name: string;
+    skip?: boolean;
+    create: () => Promise<{ threads: BaseThreadsManager; close?: () => Promise<void> }>;
+}> = [
+    {
+        name: 'memory',
+        create: async () => ({ threads: new MemoryThreadsManager() }),
+    },
+    {
+        name: 'sqlite',
+        create: async () => {
+            const { SqliteSaver } = await import('../src/storage/sqlite/checkpoint');
+            const { SQLiteAdapter } = await import('../src/storage/kysely/sqlite-adapter');
+            const dir = mkdtempSync(join(tmpdir(), 'langgraph-test-'));
+            const saver = await SqliteSaver.fromConnStringAsync(join(dir, 'test.db'));
+            const threads = new KyselyThreadsManager(new SQLiteAdapter(saver.db));
+            await threads.setup();
+            return {
+                threads,
+                close: async () => {
+                    await saver.db.destroy();
+                    rmSync(dir, { recursive: true, force: true });
+                },
+            };
+        },
+    },
+    {
+        name: 'postgres',
+        skip: !process.env.TEST_DATABASE_URL,
+        create: async () => {
+            const { Pool } = await import('pg');
+            const { PostgresAdapter } = await import('../src/storage/kysely/pg-adapter');
+            const pool = new Pool({ connectionString: process.env.TEST_DATABASE_URL });
+            const adapter = new PostgresAdapter(pool);
+            const threads = new KyselyThreadsManager(adapter);
+            await threads.setup();
+            return { threads, close: () => adapter.db.destroy() };
+        },
+    },
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const adapter of adapters) {
+    describe.skipIf(adapter.skip)(`threads conformance: ${adapter.name}`, () => {
+        let threads: BaseThreadsManager;
+        let close: (() => Promise<void>) | undefined;
+        // 数据库在多次运行之间保留数据，每次运行只查询带有本次 suite 标记的 thread
+        const suite = randomUUID();
+        const ids: string[] = [];
+
+        beforeAll(async () => {
+            ({ threads, close } = await adapter.create());
+            const fixtures = [
+                { status: 'idle', group: 'a', values: { user: { name: 'alice' }, tags: ['x'] } },
+                { status: 'busy', group: 'b', values: { user: { name: 'bob' }, tags: ['y'] } },
+                { status: 'idle', group: 'a', values: { user: { name: 'bob' }, tags: ['x'] } },
+                { status: 'error', group: 'b', values: { user: { name: 'carol' }, tags: [] } },
+            ] as const;
+            for (const fixture of fixtures) {
+                const thread = await threads.create({
+                    metadata: { suite, group: fixture.group, nested: { on: true } },
+                });
+                await threads.set(thread.thread_id, { status: fixture.status, values: fixture.values });
+                ids.push(thread.thread_id);
+                // 保证 created_at 各不相同
+                await sleep(10);
+            }
+        });
+
+        afterAll(async () => {
+            await close?.();
+        });
+
+        const indexes = (result: { thread_id: string }[]) => result.map((thread) => ids.indexOf(thread.thread_id));
+
+        describe('search', () => {
+            it('filters by status and metadata', async () => {
+                const idle = await threads.search({ metadata: { suite }, status: 'idle', sortBy: 'created_at' });
+                expect(indexes(idle)).toEqual([0, 2]);
+
+                const group = await threads.search({ metadata: { suite, group: 'b' }, sortBy: 'created_at' });
+                expect(indexes(group)).toEqual([1, 3]);
+
+                const nested = await threads.search({ metadata: { suite, nested: { on: true } } });
+                expect(nested).toHaveLength(4);
+            });
+
+            it('filters by values JSON paths', async () => {
+                const bob = await threads.search({
+                    metadata: { suite },
+                    values: { 'user.name': 'bob' },
+                    sortBy: 'created_at',
+                });
+                expect(indexes(bob)).toEqual([1, 2]);
+
+                const tagged = await threads.search({
+                    metadata: { suite },
+                    values: { tags: ['x'] },
+                    sortBy: 'created_at',
+                });
+                expect(indexes(tagged)).toEqual([0, 2]);
+
+                const missing = await threads.search({ metadata: { suite }, values: { 'user.age': 1 } });
+                expect(missing).toEqual([]);
+            });
+
+            it('filters by ids', async () => {
+                const result = await threads.search({ ids: [ids[3], ids[1]], sortBy: 'created_at' });
+                expect(indexes(result)).toEqual([1, 3]);
+
+                expect(await threads.search({ ids: [] })).toEqual([]);
+            });
+
+            it('sorts by every sort field in both directions', async () => {
+                const byId = [...ids].sort();
+                const asc = await threads.search({ metadata: { suite }, sortBy: 'thread_id', sortOrder: 'asc' });
+                expect(asc.map((thread) => thread.thread_id)).toEqual(byId);
+                const desc = await threads.search({ metadata: { suite }, sortBy: 'thread_id', sortOrder: 'desc' });
+                expect(desc.map((thread) => thread.thread_id)).toEqual([...byId].reverse());
+
+                const byStatus = await threads.search({ metadata: { suite }, sortBy: 'status', sortOrder: 'asc' });
+                expect(byStatus.map((thread) => thread.status)).toEqual(['busy', 'error', 'idle', 'idle']);
+
+                const newest = await threads.search({ metadata: { suite }, sortBy: 'created_at', sortOrder: 'desc' });
+                expect(indexes(newest)).toEqual([3, 2, 1, 0]);
+
+                await threads.set(ids[1], { metadata: { suite, group: 'b', nested: { on: true } } });
+                const updated = await threads.search({ metadata: { suite }, sortBy: 'updated_at', sortOrder: 'desc' });
+                expect(indexes(updated)[0]).toBe(1);
+            });
+
+            it('paginates with limit and offset while count reports the total', async () => {
+                const page = await threads.search({
+                    metadata: { suite },
+                    sortBy: 'created_at',
+                    sortOrder: 'asc',
+                    limit: 2,
+                    offset: 1,
+                });
+                expect(indexes(page)).toEqual([1, 2]);
+
+                expect(await threads.count({ metadata: { suite } })).toBe(4);
+                expect(await threads.count({ metadata: { suite }, status: 'idle' })).toBe(2);
+                expect(await threads.count({ metadata: { suite }, values: { 'user.name': 'bob' } })).toBe(2);
+                expect(await threads.count({ ids: [ids[0]] })).toBe(1);
+                expect(await threads.count({ ids: [] })).toBe(0);
+            });
+
+            it('projects selected fields and hides values without details', async () => {
+                const [selected] = await threads.search({ ids: [ids[0]], select: ['thread_id', 'values'] });
+                expect(selected).toEqual({ thread_id: ids[0], values: { user: { name: 'alice' }, tags: ['x'] } });
+
+                const [summary] = await threads.search({ ids: [ids[0]], withoutDetails: true });
+                expect(summary.thread_id).toBe(ids[0]);
+                expect(summary.values).toBeNull();
+                // 不会修改保存的 thread
+                expect((await threads.get(ids[0])).values).toEqual({ user: { name: 'alice' }, tags: ['x'] });
+            });
+        });
+
+        describe('listRuns', () => {
+            let runs: string[];
+
+            beforeAll(async () => {
+                runs = [];
+                for (const threadId of [ids[0], ids[1], ids[0], ids[0]]) {
+                    const run = await threads.createRun(threadId, 'agent');
+                    runs.push(run.run_id);
+                    await sleep(10);
+                }
+                await threads.updateRun(runs[0], { status: 'success' });
+            });
+
+            const runIndexes = (result: { run_id: string }[]) => result.map((run) => runs.indexOf(run.run_id));
+
+            it('only returns runs of the thread, newest first', async () => {
+                expect(runIndexes(await threads.listRuns(ids[0]))).toEqual([3, 2, 0]);
+                expect(runIndexes(await threads.listRuns(ids[1]))).toEqual([1]);
+                expect(await threads.listRuns(ids[2])).toEqual([]);
+            });
+
+            it('paginates with limit and offset', async () => {
+                expect(runIndexes(await threads.listRuns(ids[0], { limit: 2 }))).toEqual([3, 2]);
+                expect(runIndexes(await threads.listRuns(ids[0], { limit: 2, offset: 2 }))).toEqual([0]);
+            });
+
+            it('filters by status', async () => {
+                expect(runIndexes(await threads.listRuns(ids[0], { status: 'success' }))).toEqual([0]);
+                expect(runIndexes(await threads.listRuns(ids[0], { status: 'pending' }))).toEqual([3, 2]);
+            });
+        });
+
+        describe('listDueRuns', () => {
+            const now = () => new Date().toISOString();
+            const due = async (runIds: string[]) =>
+                (await threads.listDueRuns(now(), 100))
+                    .map((run) => runIds.indexOf(run.run_id))
+                    .filter((index) => index !== -1);
+
+            it('returns stored pending runs that are due, oldest first', async () => {
+                const a = await threads.create({ metadata: { suite } });
+                const b = await threads.create({ metadata: { suite } });
+                const runs = [
+                    await threads.createRun(b.thread_id, 'agent', { kwargs: { input: { n: 0 } } }),
+                    // 没有保存 kwargs 的 run 由创建它的请求执行
+                    await threads.createRun(a.thread_id, 'agent'),
+                    await threads.createRun(a.thread_id, 'agent', { kwargs: { input: { n: 2 } }, afterSeconds: 60 }),
+                ];
+                await sleep(10);
+                runs.push(await threads.createRun(a.thread_id, 'agent', { kwargs: { input: { n: 3 } } }));
+                const runIds = runs.map((run) => run.run_id);
+
+                // 排在前面的 run 1 还没有结束，run 3 需要等待
+                expect(await due(runIds)).toEqual([0]);
+                await threads.updateRun(runIds[1], { status: 'success' });
+                expect(await due(runIds)).toEqual([0, 3]);
+            });
+
+            it('waits for running runs on the same thread', async () => {
+                const thread = await threads.create({ metadata: { suite } });
+                const first = await threads.createRun(thread.thread_id, 'agent', { kwargs: {} });
+                await sleep(10);
+                const second = await threads.createRun(thread.thread_id, 'agent', { kwargs: {} });
+                const runIds = [first.run_id, second.run_id];
+
+                expect(await due(runIds)).toEqual([0]);
+                await threads.claimRun(first.run_id);
+                expect(await due(runIds)).toEqual([]);
+                await threads.updateRun(first.run_id, { status: 'success' });
+                expect(await due(runIds)).toEqual([1]);
+            });
+
+            it('lets only one caller claim a run', async () => {
+                const thread = await threads.create({ metadata: { suite } });
+                const run = await threads.createRun(thread.thread_id, 'agent', {
+                    kwargs: { input: { question: 'hi' }, webhook: 'http://localhost/hook' },
+                });
+                const plain = await threads.createRun(thread.thread_id, 'agent');
+
+                const claims = await Promise.all([threads.claimRun(run.run_id), threads.claimRun(run.run_id)]);
+                expect(claims.filter(Boolean)).toEqual([
+                    { input: { question: 'hi' }, webhook: 'http://localhost/hook' },
+                ]);
+                expect((await threads.getRun(run.run_id)).status).toBe('running');
+                expect(await threads.claimRun(plain.run_id)).toBeNull();
+            });
+        });
+    });
+}
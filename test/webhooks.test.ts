@@ -0,0 +1,135 @@
+import { createHmac } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryThreadsManager } from '../src/storage/memory/threads';
+import { WebhookDispatcher } from '../src/webhooks/dispatcher';
+
+/**
+ * 用本地 HTTP 服务模拟 webhook 接收方，按顺序返回预设的状态码
+ */
+describe('WebhookDispatcher', () => {
+    let server: Server;
+    let baseUrl: string;
+    let statuses: number[];
+    let requests: { body: string; signature: string | undefined }[];
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => {
+                requests.push({
+                    body: Buffer.concat(chunks).toString(),
+                    signature: req.headers['x-webhook-signature'] as string | undefined,
+                });
+                res.statusCode = statuses.shift() ?? 200;
+                res.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        statuses = [];
+        requests = [];
+    });
+
+    const setup = async () => {
+        const threads = new MemoryThreadsManager();
+        const thread = await threads.create();
+        await threads.set(thread.thread_id, { values: { answer: 42 } });
+        const run = await threads.createRun(thread.thread_id, 'agent');
+        await threads.updateRun(run.run_id, { status: 'success' });
+        return { threads, thread, run };
+    };
+
+    const waitForDelivery = (threads: MemoryThreadsManager, runId: string) =>
+        vi.waitFor(
+            async () => {
+                const [delivery] = await threads.listWebhookDeliveries({ runId });
+                expect(delivery.status).not.toBe('pending');
+                return delivery;
+            },
+            { timeout: 2000, interval: 10 },
+        );
+
+    it('signs the body and retries until the receiver succeeds', async () => {
+        const { threads, thread, run } = await setup();
+        const dispatcher = new WebhookDispatcher(3, 10, 'secret', 1000);
+        statuses = [500, 200];
+
+        const created = await dispatcher.send(threads, run.run_id, `${baseUrl}/hook`);
+        expect(created).toMatchObject({ run_id: run.run_id, thread_id: thread.thread_id, status: 'pending' });
+
+        const delivery = await waitForDelivery(threads, run.run_id);
+        expect(delivery).toMatchObject({ status: 'success', attempts: 2, response_status: 200, error: null });
+
+        expect(requests).toHaveLength(2);
+        for (const request of requests) {
+            const expected = createHmac('sha256', 'secret').update(request.body).digest('hex');
+            expect(request.signature).toBe(`sha256=${expected}`);
+        }
+        expect(JSON.parse(requests[0].body)).toMatchObject({
+            run_id: run.run_id,
+            status: 'success',
+            values: { answer: 42 },
+        });
+        // 重试时发送同一个请求体
+        expect(requests[1].body).toBe(requests[0].body);
+    });
+
+    it('marks the delivery as failed once attempts run out', async () => {
+        const { threads, run } = await setup();
+        const dispatcher = new WebhookDispatcher(3, 10, 'secret', 1000);
+        statuses = [500, 502, 503];
+
+        await dispatcher.send(threads, run.run_id, `${baseUrl}/hook`);
+
+        const delivery = await waitForDelivery(threads, run.run_id);
+        expect(delivery).toMatchObject({
+            status: 'failed',
+            attempts: 3,
+            response_status: 503,
+            error: 'Webhook responded with status 503',
+        });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('keeps the delivery pending between retries', async () => {
+        const { threads, run } = await setup();
+        const dispatcher = new WebhookDispatcher(2, 200, 'secret', 1000);
+        statuses = [500, 200];
+
+        await dispatcher.send(threads, run.run_id, `${baseUrl}/hook`);
+
+        const pending = await vi.waitFor(
+            async () => {
+                const [delivery] = await threads.listWebhookDeliveries({ runId: run.run_id });
+                expect(delivery.attempts).toBe(1);
+                return delivery;
+            },
+            { timeout: 1000, interval: 10 },
+        );
+        expect(pending).toMatchObject({ status: 'pending', response_status: 500 });
+
+        const delivery = await waitForDelivery(threads, run.run_id);
+        expect(delivery).toMatchObject({ status: 'success', attempts: 2 });
+    });
+
+    it('omits the signature header without a secret', async () => {
+        const { threads, run } = await setup();
+        const dispatcher = new WebhookDispatcher(1, 10, undefined, 1000);
+
+        await dispatcher.send(threads, run.run_id, `${baseUrl}/hook`);
+
+        const delivery = await waitForDelivery(threads, run.run_id);
+        expect(delivery.status).toBe('success');
+        expect(requests[0].signature).toBeUndefined();
+    });
+});